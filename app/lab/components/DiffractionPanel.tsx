@@ -0,0 +1,196 @@
+// app/lab/components/DiffractionPanel.tsx
+'use client';
+
+import React, { useEffect, useRef } from 'react';
+import type { DiffractionResult } from '../../../src/optics/plan/types';
+
+const COLORS = ['#2563eb', '#dc2626', '#16a34a', '#9333ea'];
+
+// Decades of PSF intensity shown below the peak, so the rings and spider
+// spikes stay visible next to the core.
+const PSF_DECADES = 4;
+
+function fmt(n: number, digits = 3): string {
+  if (!Number.isFinite(n)) return '-';
+  return n.toFixed(digits);
+}
+
+function fieldLabel(d: DiffractionResult): string {
+  const deg = (rad: number) => fmt((rad * 180) / Math.PI, 3);
+  return `(${deg(d.field.x_rad)}°, ${deg(d.field.y_rad)}°)`;
+}
+
+// The lower of tangential and sagittal MTF at Nyquist over every field, the
+// figure a sensor sees at its worst; NaN when no pixel size was given.
+export function worstMtfAtNyquist(results: DiffractionResult[]): number {
+  const values = results.flatMap((d) =>
+    d.mtfAtNyquist ? [d.mtfAtNyquist.tangential, d.mtfAtNyquist.sagittal] : []
+  );
+  return values.length > 0 ? Math.min(...values) : NaN;
+}
+
+function PsfImage(props: { result: DiffractionResult; scale: number }) {
+  const { result, scale } = props;
+  const ref = useRef<HTMLCanvasElement | null>(null);
+
+  useEffect(() => {
+    const canvas = ref.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    const { size, values } = result.psf;
+    const image = ctx.createImageData(size, size);
+    const peak = Math.max(...values);
+
+    values.forEach((v, i) => {
+      const level =
+        peak > 0 ? Math.log10(Math.max(v / peak, 1e-12)) : -Infinity;
+      const g = Math.round(255 * Math.max(0, 1 + level / PSF_DECADES));
+      image.data[4 * i] = g;
+      image.data[4 * i + 1] = g;
+      image.data[4 * i + 2] = g;
+      image.data[4 * i + 3] = 255;
+    });
+
+    ctx.putImageData(image, 0, 0);
+  }, [result]);
+
+  return (
+    <canvas
+      ref={ref}
+      width={result.psf.size}
+      height={result.psf.size}
+      style={{
+        width: result.psf.size * scale,
+        height: result.psf.size * scale,
+        imageRendering: 'pixelated',
+        background: 'black',
+      }}
+    />
+  );
+}
+
+function MtfPlot(props: { results: DiffractionResult[] }) {
+  const { results } = props;
+  const width = 360;
+  const height = 220;
+  const pad = 32;
+
+  const cutoff = Math.max(
+    ...results.map((d) => d.mtf.frequency_cyPerMm.at(-1) ?? 0)
+  );
+  if (!(cutoff > 0)) return null;
+
+  const x = (f: number) => pad + ((width - 2 * pad) * f) / cutoff;
+  const y = (m: number) => height - pad - (height - 2 * pad) * m;
+
+  const nyquist = results.find((d) => d.mtfAtNyquist)?.mtfAtNyquist
+    ?.frequency_cyPerMm;
+
+  const line = (d: DiffractionResult, values: number[]) =>
+    d.mtf.frequency_cyPerMm
+      .map((f, i) => `${fmt(x(f), 1)},${fmt(y(values[i]), 1)}`)
+      .join(' ');
+
+  return (
+    <svg
+      xmlns='http://www.w3.org/2000/svg'
+      width={width}
+      height={height}
+      viewBox={`0 0 ${width} ${height}`}
+      style={{ fontFamily: 'monospace', fontSize: 10 }}
+    >
+      <rect x={0} y={0} width={width} height={height} fill='white' />
+      <line x1={x(0)} y1={y(0)} x2={x(cutoff)} y2={y(0)} stroke='#999' />
+      <line x1={x(0)} y1={y(0)} x2={x(0)} y2={y(1)} stroke='#999' />
+      {[0.25, 0.5, 0.75, 1].map((m) => (
+        <g key={m}>
+          <line x1={x(0)} y1={y(m)} x2={x(cutoff)} y2={y(m)} stroke='#eee' />
+          <text x={4} y={y(m) + 3}>
+            {fmt(m, 2)}
+          </text>
+        </g>
+      ))}
+      <text x={x(0)} y={height - 8}>
+        0
+      </text>
+      <text x={x(cutoff)} y={height - 8} textAnchor='end'>
+        {fmt(cutoff, 0)} cy/mm
+      </text>
+      {nyquist !== undefined && nyquist < cutoff ? (
+        <g>
+          <line
+            x1={x(nyquist)}
+            y1={y(0)}
+            x2={x(nyquist)}
+            y2={y(1)}
+            stroke='#999'
+            strokeDasharray='2 2'
+          />
+          <text x={x(nyquist)} y={y(1) - 4} textAnchor='middle'>
+            Nyquist
+          </text>
+        </g>
+      ) : null}
+      {results.map((d, i) => (
+        <g key={i}>
+          <polyline
+            points={line(d, d.mtf.tangential)}
+            fill='none'
+            stroke={COLORS[i % COLORS.length]}
+          />
+          <polyline
+            points={line(d, d.mtf.sagittal)}
+            fill='none'
+            stroke={COLORS[i % COLORS.length]}
+            strokeDasharray='4 3'
+          />
+        </g>
+      ))}
+    </svg>
+  );
+}
+
+export function DiffractionPanel(props: { results: DiffractionResult[] }) {
+  const { results } = props;
+  if (results.length === 0) {
+    return (
+      <div style={{ padding: 12 }}>
+        No diffraction image for this candidate.
+      </div>
+    );
+  }
+
+  return (
+    <div
+      style={{
+        display: 'flex',
+        flexWrap: 'wrap',
+        gap: 16,
+        alignItems: 'flex-start',
+        padding: 8,
+      }}
+    >
+      {results.map((d, i) => (
+        <div key={i} style={{ fontFamily: 'monospace', fontSize: 12 }}>
+          <div style={{ color: COLORS[i % COLORS.length] }}>
+            field {fieldLabel(d)} | Strehl {fmt(d.strehl, 3)}
+          </div>
+          {d.mtfAtNyquist ? (
+            <div>
+              MTF at Nyquist ({fmt(d.mtfAtNyquist.frequency_cyPerMm, 0)} cy/mm)
+              T {fmt(d.mtfAtNyquist.tangential, 3)} S{' '}
+              {fmt(d.mtfAtNyquist.sagittal, 3)}
+            </div>
+          ) : null}
+          <PsfImage result={d} scale={3} />
+          <div>{fmt(d.psf.size * d.psf.spacing_mm * 1000, 0)} µm square</div>
+        </div>
+      ))}
+      <div style={{ fontFamily: 'monospace', fontSize: 12 }}>
+        <div>MTF (solid tangential, dashed sagittal)</div>
+        <MtfPlot results={results} />
+      </div>
+    </div>
+  );
+}
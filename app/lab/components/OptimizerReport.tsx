@@ -0,0 +1,73 @@
+// app/lab/components/OptimizerReport.tsx
+'use client';
+
+import type { DesignParams } from '../../../src/optics/types';
+import type { OptimizationResult } from '../../../src/optics/optimize';
+import { fmtNumber } from '../../../src/ui/format';
+
+function fmtParams(p: DesignParams): string {
+  const f = `Fp${fmtNumber(p.primaryFRatio, 3)} Fs${fmtNumber(p.systemFRatio, 3)}`;
+  return p.backFocus_mm === undefined
+    ? f
+    : `${f} BF${fmtNumber(p.backFocus_mm, 1)}mm`;
+}
+
+export function OptimizerReport(props: { optimization: OptimizationResult }) {
+  const runs = props.optimization.runs;
+
+  if (runs.length === 0) {
+    return (
+      <div className='mt-2 text-xs'>
+        No passing grid candidates to start from.
+      </div>
+    );
+  }
+
+  return (
+    <div className='mt-2 flex flex-col gap-3 text-xs'>
+      {runs.map((run) => (
+        <div key={run.kind} className='flex flex-col'>
+          <div className='font-medium text-zinc-900'>
+            {run.kind}: {fmtParams(run.seed.params)} → {fmtParams(run.params)}
+          </div>
+          <div className='text-zinc-700'>
+            score {fmtNumber(run.seed.score, 4)} → {fmtNumber(run.score, 4)} |{' '}
+            {run.iterations} iterations, {run.evaluations} designs |{' '}
+            {run.converged ? 'converged' : 'stopped at iteration cap'}
+          </div>
+          <details className='mt-1 text-zinc-600'>
+            <summary className='cursor-pointer'>Trajectory</summary>
+            <table className='mt-1 border-collapse'>
+              <thead>
+                <tr className='text-left text-zinc-600'>
+                  <th className='border-b border-zinc-200 py-1 pr-3'>iter</th>
+                  <th className='border-b border-zinc-200 py-1 pr-3'>Fp</th>
+                  <th className='border-b border-zinc-200 py-1 pr-3'>Fs</th>
+                  <th className='border-b border-zinc-200 py-1 pr-3'>score</th>
+                </tr>
+              </thead>
+              <tbody>
+                {run.trajectory.map((step) => (
+                  <tr key={step.iteration} className='text-zinc-900'>
+                    <td className='border-b border-zinc-100 py-1 pr-3'>
+                      {step.iteration}
+                    </td>
+                    <td className='border-b border-zinc-100 py-1 pr-3'>
+                      {fmtNumber(step.params.primaryFRatio, 3)}
+                    </td>
+                    <td className='border-b border-zinc-100 py-1 pr-3'>
+                      {fmtNumber(step.params.systemFRatio, 3)}
+                    </td>
+                    <td className='border-b border-zinc-100 py-1 pr-3'>
+                      {fmtNumber(step.score, 4)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </details>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,161 @@
+// app/lab/components/ParetoScatter.tsx
+'use client';
+
+import { useState } from 'react';
+import type { Candidate } from '../../../src/optics/types';
+import {
+  PARETO_OBJECTIVES,
+  paretoObjective,
+  type ParetoObjectiveKey,
+} from '../../../src/optics/pareto';
+import { candidateLabel, fmtNumber } from '../../../src/ui/format';
+
+const FRONT_COLOR = '#2563eb';
+const DOMINATED_COLOR = '#a1a1aa';
+
+function fmtAxis(v: number): string {
+  return Math.abs(v) >= 100 ? fmtNumber(v, 0) : fmtNumber(v, 3);
+}
+
+function AxisSelect(props: {
+  label: string;
+  value: ParetoObjectiveKey;
+  setValueAction: (v: ParetoObjectiveKey) => void;
+}) {
+  return (
+    <label className='flex items-center gap-2'>
+      <span>{props.label}</span>
+      <select
+        className='rounded-lg border border-zinc-200 bg-white px-2 py-1 text-xs text-zinc-900'
+        value={props.value}
+        onChange={(e) =>
+          props.setValueAction(e.target.value as ParetoObjectiveKey)
+        }
+      >
+        {PARETO_OBJECTIVES.map((o) => (
+          <option key={o.key} value={o.key}>
+            {o.label}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
+
+// Passing designs plotted on two objectives of the user's choosing, the
+// non-dominated set in colour. Clicking a point hands its candidate on.
+export function ParetoScatter(props: {
+  candidates: Candidate[];
+  selectedId: string | null;
+  selectAction: (c: Candidate) => void;
+}) {
+  const [xKey, setXKey] = useState<ParetoObjectiveKey>('wfeRmsEdge');
+  const [yKey, setYKey] = useState<ParetoObjectiveKey>('usableLightEfficiency');
+  const xAxis = paretoObjective(xKey);
+  const yAxis = paretoObjective(yKey);
+
+  const width = 480;
+  const height = 320;
+  const pad = 40;
+
+  const points = props.candidates
+    .map((c) => ({ c, vx: xAxis.value(c), vy: yAxis.value(c) }))
+    .filter((p) => Number.isFinite(p.vx) && Number.isFinite(p.vy));
+
+  const range = (values: number[]) => {
+    const lo = Math.min(...values);
+    const hi = Math.max(...values);
+    return hi > lo ? { lo, hi } : { lo: lo - 0.5, hi: hi + 0.5 };
+  };
+  const rx = range(points.map((p) => p.vx));
+  const ry = range(points.map((p) => p.vy));
+
+  const x = (v: number) =>
+    pad + ((width - 2 * pad) * (v - rx.lo)) / (rx.hi - rx.lo);
+  const y = (v: number) =>
+    height - pad - ((height - 2 * pad) * (v - ry.lo)) / (ry.hi - ry.lo);
+
+  // Front drawn last so it sits on top of the dominated designs.
+  const ordered = [...points].sort(
+    (a, b) => (b.c.pareto?.rank ?? 0) - (a.c.pareto?.rank ?? 0)
+  );
+
+  return (
+    <div className='mt-2 flex flex-col gap-2 text-xs'>
+      <div className='flex flex-wrap gap-4'>
+        <AxisSelect label='x' value={xKey} setValueAction={setXKey} />
+        <AxisSelect label='y' value={yKey} setValueAction={setYKey} />
+      </div>
+
+      {points.length === 0 ? (
+        <div>No designs with both values.</div>
+      ) : (
+        <svg
+          xmlns='http://www.w3.org/2000/svg'
+          width={width}
+          height={height}
+          viewBox={`0 0 ${width} ${height}`}
+          style={{ fontFamily: 'monospace', fontSize: 10 }}
+        >
+          <rect x={0} y={0} width={width} height={height} fill='white' />
+          <line
+            x1={pad}
+            y1={height - pad}
+            x2={width - pad}
+            y2={height - pad}
+            stroke='#999'
+          />
+          <line x1={pad} y1={pad} x2={pad} y2={height - pad} stroke='#999' />
+          <text x={pad} y={height - pad + 14}>
+            {fmtAxis(rx.lo)}
+          </text>
+          <text x={width - pad} y={height - pad + 14} textAnchor='end'>
+            {fmtAxis(rx.hi)}
+          </text>
+          <text x={width / 2} y={height - 6} textAnchor='middle'>
+            {xAxis.label} ({xAxis.sense === 'max' ? 'higher' : 'lower'} is
+            better)
+          </text>
+          <text x={pad - 4} y={height - pad} textAnchor='end'>
+            {fmtAxis(ry.lo)}
+          </text>
+          <text x={pad - 4} y={pad + 8} textAnchor='end'>
+            {fmtAxis(ry.hi)}
+          </text>
+          <text x={pad} y={pad - 10}>
+            {yAxis.label} ({yAxis.sense === 'max' ? 'higher' : 'lower'} is
+            better)
+          </text>
+          {ordered.map(({ c, vx, vy }) => {
+            const front = c.pareto?.rank === 1;
+            const selected = c.id === props.selectedId;
+            return (
+              <circle
+                key={c.id}
+                cx={x(vx)}
+                cy={y(vy)}
+                r={selected ? 6 : 4}
+                fill={front ? FRONT_COLOR : DOMINATED_COLOR}
+                fillOpacity={front ? 0.9 : 0.5}
+                stroke={selected ? '#18181b' : 'none'}
+                strokeWidth={2}
+                style={{ cursor: 'pointer' }}
+                onClick={() => props.selectAction(c)}
+              >
+                <title>
+                  {`${candidateLabel(c)}\nfront ${c.pareto?.rank ?? '-'} | score ${fmtNumber(c.score.total, 3)}`}
+                </title>
+              </circle>
+            );
+          })}
+        </svg>
+      )}
+
+      <div className='text-zinc-500'>
+        <span style={{ color: FRONT_COLOR }}>●</span> non-dominated{' '}
+        <span style={{ color: DOMINATED_COLOR }}>●</span> dominated | click a
+        point to inspect it
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+// app/lab/components/RefinementReport.tsx
+'use client';
+
+import type { RefinementLevel } from '../../../src/optics/adaptive';
+import { fmtNumber } from '../../../src/ui/format';
+
+export function RefinementReport(props: { levels: RefinementLevel[] }) {
+  return (
+    <table className='mt-2 border-collapse text-xs'>
+      <thead>
+        <tr className='text-left text-zinc-600'>
+          <th className='border-b border-zinc-200 py-1 pr-3'>level</th>
+          <th className='border-b border-zinc-200 py-1 pr-3'>Fp step</th>
+          <th className='border-b border-zinc-200 py-1 pr-3'>Fs step</th>
+          <th className='border-b border-zinc-200 py-1 pr-3'>cells</th>
+          <th className='border-b border-zinc-200 py-1 pr-3'>split</th>
+          <th className='border-b border-zinc-200 py-1 pr-3'>designs</th>
+        </tr>
+      </thead>
+      <tbody>
+        {props.levels.map((l) => (
+          <tr key={l.level} className='text-zinc-900'>
+            <td className='border-b border-zinc-100 py-1 pr-3'>{l.level}</td>
+            <td className='border-b border-zinc-100 py-1 pr-3'>
+              {fmtNumber(l.primaryFRatioStep, 4)}
+            </td>
+            <td className='border-b border-zinc-100 py-1 pr-3'>
+              {fmtNumber(l.systemFRatioStep, 4)}
+            </td>
+            <td className='border-b border-zinc-100 py-1 pr-3'>{l.cells}</td>
+            <td className='border-b border-zinc-100 py-1 pr-3'>{l.split}</td>
+            <td className='border-b border-zinc-100 py-1 pr-3'>{l.jobs}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
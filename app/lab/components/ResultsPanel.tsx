@@ -1,6 +1,7 @@
 // app/lab/components/ResultsPanel.tsx
 'use client';
 
+import { useRef, useState } from 'react';
 import type {
   Candidate,
   OpticDesignKind,
@@ -8,9 +9,14 @@ import type {
 } from '../../../src/optics/types';
 import type { SweepResult } from '../../../src/optics/sweep';
 import type {
+  DiffractionResult,
   OpticalSimulator,
   SampleSpec,
 } from '../../../src/optics/plan/types';
+import {
+  DIFFRACTION_PADDING,
+  DIFFRACTION_PUPIL_SAMPLES,
+} from '../../../src/optics/constants';
 
 import {
   candidateLabel,
@@ -19,7 +25,14 @@ import {
   fmtPercent,
 } from '../../../src/ui/format';
 import { TopTable } from './TopTable';
-import { ScopeLabResultsViewer } from './ScopeLabResultsView';
+import { OptimizerReport } from './OptimizerReport';
+import { RefinementReport } from './RefinementReport';
+import { ParetoScatter } from './ParetoScatter';
+import { SweepHeatmap } from './SweepHeatmap';
+import {
+  ScopeLabResultsViewer,
+  type ScopeLabResultsViewerHandle,
+} from './ScopeLabResultsView';
 
 type ViewerCandidate = Candidate;
 
@@ -58,6 +71,8 @@ export function ResultsPanel(props: {
   scoringSampleSpec: SampleSpec;
 }) {
   const r = props.result;
+  const viewerRef = useRef<ScopeLabResultsViewerHandle>(null);
+  const [pickedId, setPickedId] = useState<string | null>(null);
 
   if (!r) {
     return (
@@ -91,6 +106,12 @@ export function ResultsPanel(props: {
 
         <div className='mt-3 flex flex-col gap-3'>
           <div>No passing candidates.</div>
+          {r.candidates.length > 0 ? (
+            <div className='rounded-lg border border-zinc-200 bg-white p-3'>
+              <div className='text-xs text-zinc-500'>Design space</div>
+              <SweepHeatmap result={r} selectedId={null} />
+            </div>
+          ) : null}
           <div className='text-xs text-zinc-500'>
             Candidates generated: {r.candidates.length} | Passing: 0
           </div>
@@ -102,7 +123,18 @@ export function ResultsPanel(props: {
   const bestOverall = r.bestOverall as Candidate;
   const bestByKind = r.bestByKind as Record<OpticDesignKind, Candidate | null>;
 
-  const viewerCandidates: ViewerCandidate[] = r.top;
+  // A design picked on the scatter plot or heatmap joins the inspector's list if it is
+  // not already in the top N.
+  const picked = pickedId ? r.ranked.find((c) => c.id === pickedId) : null;
+  const viewerCandidates: ViewerCandidate[] =
+    picked && !r.top.some((c) => c.id === picked.id)
+      ? [...r.top, picked]
+      : r.top;
+
+  function pickCandidate(c: Candidate) {
+    setPickedId(c.id);
+    viewerRef.current?.selectAction(c);
+  }
 
   async function loadSvgForCandidate(c: ViewerCandidate): Promise<string> {
     const debugSvg = await import('../../../src/optics/raytrace/debugSvg');
@@ -126,6 +158,34 @@ export function ResultsPanel(props: {
     return html || placeholderHtml(String(c.kind), String(c.id));
   }
 
+  async function loadSpotSvgForCandidate(c: ViewerCandidate): Promise<string> {
+    const debugSvg = await import('../../../src/optics/raytrace/debugSvg');
+
+    if (!c.plan) return '';
+
+    return debugSvg.renderSpotDiagramSvg(
+      c.plan,
+      props.simulator,
+      props.scoringSampleSpec
+    );
+  }
+
+  async function loadDiffractionForCandidate(
+    c: ViewerCandidate
+  ): Promise<DiffractionResult[]> {
+    if (!c.plan) return [];
+
+    const sim = props.simulator.simulate(c.plan, {
+      ...props.scoringSampleSpec,
+      diffraction: {
+        pupilSamples: DIFFRACTION_PUPIL_SAMPLES,
+        padding: DIFFRACTION_PADDING,
+      },
+    });
+
+    return sim.diffraction ?? [];
+  }
+
   return (
     <div className='rounded-lg border border-zinc-200 bg-zinc-50 p-4 text-sm text-zinc-700'>
       <div className='flex items-center justify-between'>
@@ -167,7 +227,18 @@ export function ResultsPanel(props: {
           <div className='text-xs text-zinc-500'>Best by kind</div>
           <div className='mt-2 grid grid-cols-1 gap-2 text-xs'>
             {(
-              ['newtonian', 'cassegrain', 'sct', 'rc'] as OpticDesignKind[]
+              [
+                'newtonian',
+                'offAxisNewtonian',
+                'cassegrain',
+                'sct',
+                'rc',
+                'dallKirkham',
+                'maksutov',
+                'gregorian',
+                'aplanaticGregorian',
+                'schiefspiegler',
+              ] as OpticDesignKind[]
             ).map((k) => {
               const c = bestByKind[k];
               if (!c) return <div key={k}>{k}: none</div>;
@@ -182,12 +253,81 @@ export function ResultsPanel(props: {
                     obs {fmtPercent(c.geometry.obstructionRatio, 1)} | eff{' '}
                     {fmtPercent(c.throughput.usableLightEfficiency, 1)}
                   </div>
+                  {c.corrector ? (
+                    <div className='text-zinc-500'>
+                      corrector {c.corrector.glass}{' '}
+                      {fmtNumber(c.corrector.thickness_mm, 1)} mm |{' '}
+                      {fmtNumber(c.corrector.weight_kg, 2)} kg | τ{' '}
+                      {fmtNumber(c.corrector.thermalTimeConstant_min, 0)} min
+                    </div>
+                  ) : null}
+                  {c.offAxis ? (
+                    <div className='text-zinc-500'>
+                      parent f {fmtNumber(c.offAxis.parentFocalLength_mm, 0)}{' '}
+                      mm, Ø{fmtNumber(c.offAxis.parentDiameter_mm, 0)} mm |
+                      off-axis {fmtNumber(c.offAxis.offAxisDistance_mm, 1)} mm
+                      | sag {fmtNumber(c.offAxis.subApertureSag_mm, 3)} mm
+                    </div>
+                  ) : null}
+                  {c.tilts ? (
+                    <div className='text-zinc-500'>
+                      primary tilt{' '}
+                      {fmtNumber((c.tilts.primaryTilt_rad * 180) / Math.PI, 2)}°
+                      | secondary tilt{' '}
+                      {fmtNumber(
+                        (c.tilts.secondaryTilt_rad * 180) / Math.PI,
+                        2,
+                      )}
+                      ° | decenter {fmtNumber(c.tilts.secondaryDecenter_mm, 1)}{' '}
+                      mm
+                    </div>
+                  ) : null}
+                  {c.erectImage ? (
+                    <div className='text-zinc-500'>erect image</div>
+                  ) : null}
                 </div>
               );
             })}
           </div>
         </div>
 
+        {r.optimization ? (
+          <div className='rounded-lg border border-zinc-200 bg-white p-3'>
+            <div className='text-xs text-zinc-500'>Optimizer</div>
+            <OptimizerReport optimization={r.optimization} />
+          </div>
+        ) : null}
+
+        {r.refinement ? (
+          <div className='rounded-lg border border-zinc-200 bg-white p-3'>
+            <div className='text-xs text-zinc-500'>Adaptive refinement</div>
+            <RefinementReport levels={r.refinement} />
+          </div>
+        ) : null}
+
+        {r.pareto ? (
+          <div className='rounded-lg border border-zinc-200 bg-white p-3'>
+            <div className='text-xs text-zinc-500'>
+              Pareto front: {r.pareto.front.length} of {r.ranked.length} passing
+              designs are non-dominated
+            </div>
+            <ParetoScatter
+              candidates={r.ranked}
+              selectedId={picked?.id ?? null}
+              selectAction={pickCandidate}
+            />
+          </div>
+        ) : null}
+
+        <div className='rounded-lg border border-zinc-200 bg-white p-3'>
+          <div className='text-xs text-zinc-500'>Design space</div>
+          <SweepHeatmap
+            result={r}
+            selectedId={picked?.id ?? null}
+            selectAction={pickCandidate}
+          />
+        </div>
+
         <div className='rounded-lg border border-zinc-200 bg-white p-3'>
           <div className='text-xs text-zinc-500'>Top {r.top.length}</div>
           <TopTable candidates={r.top} tubeUnits={props.tubeUnits} />
@@ -197,9 +337,12 @@ export function ResultsPanel(props: {
           <div className='text-xs text-zinc-500'>Inspect</div>
           <div className='mt-2'>
             <ScopeLabResultsViewer
+              ref={viewerRef}
               title='Scope Lab Results'
               candidates={viewerCandidates}
               loadSvgAction={loadSvgForCandidate}
+              loadDiffractionAction={loadDiffractionForCandidate}
+              loadSpotSvgAction={loadSpotSvgForCandidate}
             />
           </div>
         </div>
@@ -1,13 +1,29 @@
 // app/lab/components/ScopeLabResultsView.tsx
 'use client';
 
-import React, { useMemo, useRef, useState, useEffect } from 'react';
+import React, {
+  useMemo,
+  useRef,
+  useState,
+  useEffect,
+  useImperativeHandle,
+} from 'react';
 import type { Candidate } from '../../../src/optics/types';
+import type { DiffractionResult } from '../../../src/optics/plan/types';
+import { DiffractionPanel, worstMtfAtNyquist } from './DiffractionPanel';
 
 type Props = {
   candidates: Candidate[];
   loadSvgAction: (c: Candidate) => Promise<string>;
+  loadDiffractionAction?: (c: Candidate) => Promise<DiffractionResult[]>;
+  loadSpotSvgAction?: (c: Candidate) => Promise<string>;
   title?: string;
+  ref?: React.Ref<ScopeLabResultsViewerHandle>;
+};
+
+// Lets a parent open a candidate in the viewer, as if its row were clicked.
+export type ScopeLabResultsViewerHandle = {
+  selectAction: (c: Candidate) => void;
 };
 
 function fmt(n: number, digits = 3): string {
@@ -42,7 +58,14 @@ function svgOnlyFromString(s: string): string {
 }
 
 export function ScopeLabResultsViewer(props: Props) {
-  const { candidates, loadSvgAction, title } = props;
+  const {
+    candidates,
+    loadSvgAction,
+    loadDiffractionAction,
+    loadSpotSvgAction,
+    title,
+    ref,
+  } = props;
 
   const sorted = useMemo(() => {
     const copy = [...candidates];
@@ -58,6 +81,12 @@ export function ScopeLabResultsViewer(props: Props) {
   const [status, setStatus] = useState<'idle' | 'loading' | 'error'>('idle');
   const [errorText, setErrorText] = useState<string>('');
   const [emptyText, setEmptyText] = useState<string>('');
+  const [diffraction, setDiffraction] = useState<DiffractionResult[] | null>(
+    null
+  );
+  // Worst MTF at Nyquist per candidate, kept once its diffraction is loaded.
+  const [mtfNyquist, setMtfNyquist] = useState<Record<string, number>>({});
+  const [spotSvg, setSpotSvg] = useState<string>('');
 
   const iframeRef = useRef<HTMLIFrameElement | null>(null);
 
@@ -73,6 +102,8 @@ export function ScopeLabResultsViewer(props: Props) {
     setHtml('');
     setErrorText('');
     setEmptyText('');
+    setDiffraction(null);
+    setSpotSvg('');
     try {
       const s = await loadSvgAction(c);
       if (!s) {
@@ -90,6 +121,13 @@ export function ScopeLabResultsViewer(props: Props) {
       }
 
       setStatus('idle');
+
+      if (loadSpotSvgAction) setSpotSvg(await loadSpotSvgAction(c));
+      if (loadDiffractionAction) {
+        const results = await loadDiffractionAction(c);
+        setDiffraction(results);
+        setMtfNyquist((m) => ({ ...m, [c.id]: worstMtfAtNyquist(results) }));
+      }
     } catch (e) {
       const msg = errToString(e);
       console.error('loadSvgAction failed:', e);
@@ -98,6 +136,10 @@ export function ScopeLabResultsViewer(props: Props) {
     }
   }
 
+  useImperativeHandle(ref, () => ({
+    selectAction: (c: Candidate) => void select(c),
+  }));
+
   useEffect(() => {
     if (!html) return;
     const f = iframeRef.current;
@@ -125,7 +167,7 @@ export function ScopeLabResultsViewer(props: Props) {
     <div
       style={{
         display: 'grid',
-        gridTemplateRows: 'auto auto auto 1fr',
+        gridTemplateRows: 'auto auto auto 1fr auto auto',
         gap: 12,
         minWidth: 0,
       }}
@@ -243,6 +285,15 @@ export function ScopeLabResultsViewer(props: Props) {
               >
                 WFE
               </th>
+              <th
+                style={{
+                  textAlign: 'right',
+                  padding: 10,
+                  borderBottom: '1px solid #eee',
+                }}
+              >
+                MTF@Ny
+              </th>
             </tr>
           </thead>
           <tbody>
@@ -315,6 +366,15 @@ export function ScopeLabResultsViewer(props: Props) {
                   >
                     {fmt(wfe, 3)}
                   </td>
+                  <td
+                    style={{
+                      padding: 10,
+                      textAlign: 'right',
+                      fontFamily: 'monospace',
+                    }}
+                  >
+                    {fmt(mtfNyquist[c.id] ?? NaN, 3)}
+                  </td>
                 </tr>
               );
             })}
@@ -383,6 +443,33 @@ export function ScopeLabResultsViewer(props: Props) {
           <div style={{ padding: 12 }}>Click a candidate to load the view.</div>
         ) : null}
       </div>
+
+      {spotSvg ? (
+        <div
+          style={{
+            border: '1px solid #ddd',
+            borderRadius: 8,
+            overflow: 'auto',
+            padding: 8,
+            minWidth: 0,
+            background: 'white',
+          }}
+          dangerouslySetInnerHTML={{ __html: svgOnlyFromString(spotSvg) }}
+        />
+      ) : null}
+
+      {diffraction ? (
+        <div
+          style={{
+            border: '1px solid #ddd',
+            borderRadius: 8,
+            minWidth: 0,
+            background: 'white',
+          }}
+        >
+          <DiffractionPanel results={diffraction} />
+        </div>
+      ) : null}
     </div>
   );
 }
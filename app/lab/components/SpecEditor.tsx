@@ -1,13 +1,20 @@
 'use client';
 
 import type {
+  FieldGridKind,
   InputSpec,
+  MaksutovSecondary,
   OpticDesignKind,
   Units,
 } from '../../../src/optics/types';
 
 import { toMm } from '../../../src/optics/units';
-import { DEFAULT_TUBE_MARGIN_MM } from '../../../src/optics/constants';
+import {
+  DEFAULT_SENSOR_HEIGHT_MM,
+  DEFAULT_SENSOR_WIDTH_MM,
+  DEFAULT_TUBE_MARGIN_MM,
+} from '../../../src/optics/constants';
+import { DEFAULT_FIELD_GRID } from '../../../src/optics/designs/fields';
 
 import { NumberField } from './NumberField';
 import { UnitsField } from './UnitsField';
@@ -21,6 +28,13 @@ function toggleKind(
   return [...kinds, kind];
 }
 
+const FIELD_GRID_LABELS: Record<FieldGridKind, string> = {
+  onAxis: 'On axis',
+  zone: '0.7 field',
+  full: 'Full field',
+  sensorCorners: 'Sensor corners',
+};
+
 function isRecord(v: unknown): v is Record<string, unknown> {
   return typeof v === 'object' && v !== null && !Array.isArray(v);
 }
@@ -103,12 +117,60 @@ export function SpecEditor(props: {
     props.setSpecAction(setIn(spec, parts, next));
   }
 
+  // Empty clears the maximum, which pins back focus to the minimum.
+  function updateMaxBackFocus(v: string) {
+    if (disabled) return;
+    const n = Number(v);
+    props.setSpecAction({
+      ...spec,
+      constraints: {
+        ...spec.constraints,
+        maxBackFocus: v.trim() === '' || !Number.isFinite(n) ? undefined : n,
+      },
+    });
+  }
+
   function updateUnits(path: string, v: Units) {
     if (disabled) return;
     const parts = path.split('.');
     props.setSpecAction(setIn(spec, parts, v));
   }
 
+  function updateMaksutovSecondary(v: MaksutovSecondary) {
+    if (disabled) return;
+    props.setSpecAction({ ...spec, maksutovSecondary: v });
+  }
+
+  function updateOffAxisDiagonal(v: boolean) {
+    if (disabled) return;
+    props.setSpecAction({ ...spec, offAxisDiagonal: v });
+  }
+
+  function updateFieldGrid(kind: FieldGridKind) {
+    if (disabled) return;
+    const grid = spec.fieldGrid ?? DEFAULT_FIELD_GRID;
+    props.setSpecAction({
+      ...spec,
+      fieldGrid: grid.includes(kind)
+        ? grid.filter((k) => k !== kind)
+        : [...grid, kind],
+    });
+  }
+
+  function updateSensorEnabled(v: boolean) {
+    if (disabled) return;
+    props.setSpecAction({
+      ...spec,
+      sensorFormat: v
+        ? {
+            width: DEFAULT_SENSOR_WIDTH_MM,
+            height: DEFAULT_SENSOR_HEIGHT_MM,
+            units: 'mm',
+          }
+        : undefined,
+    });
+  }
+
   function updateKinds(kind: OpticDesignKind) {
     if (disabled) return;
     props.setSpecAction({
@@ -124,20 +186,58 @@ export function SpecEditor(props: {
       <div>
         <h2 className='text-lg font-semibold'>Design selection</h2>
         <div className='mt-4 grid grid-cols-2 gap-3'>
-          {(['newtonian', 'cassegrain', 'sct', 'rc'] as OpticDesignKind[]).map(
-            (k) => (
-              <label key={k} className='flex items-center gap-2 text-sm'>
-                <input
-                  type='checkbox'
-                  checked={spec.designKinds.includes(k)}
-                  onChange={() => updateKinds(k)}
-                  disabled={disabled}
-                />
-                <span className='capitalize'>{k}</span>
-              </label>
-            )
-          )}
+          {(
+            [
+              'newtonian',
+              'offAxisNewtonian',
+              'cassegrain',
+              'sct',
+              'rc',
+              'dallKirkham',
+              'maksutov',
+              'gregorian',
+              'aplanaticGregorian',
+              'schiefspiegler',
+            ] as OpticDesignKind[]
+          ).map((k) => (
+            <label key={k} className='flex items-center gap-2 text-sm'>
+              <input
+                type='checkbox'
+                checked={spec.designKinds.includes(k)}
+                onChange={() => updateKinds(k)}
+                disabled={disabled}
+              />
+              <span className='capitalize'>{k}</span>
+            </label>
+          ))}
         </div>
+        {spec.designKinds.includes('maksutov') ? (
+          <div className='mt-4 flex flex-col gap-2'>
+            <label className='text-sm font-medium'>Maksutov secondary</label>
+            <select
+              className='rounded-lg border border-zinc-200 bg-white px-3 py-2 text-sm text-zinc-900'
+              value={spec.maksutovSecondary ?? 'spot'}
+              disabled={disabled}
+              onChange={(e) =>
+                updateMaksutovSecondary(e.target.value as MaksutovSecondary)
+              }
+            >
+              <option value='spot'>Aluminized spot</option>
+              <option value='separate'>Separate mirror</option>
+            </select>
+          </div>
+        ) : null}
+        {spec.designKinds.includes('offAxisNewtonian') ? (
+          <label className='mt-4 flex items-center gap-2 text-sm'>
+            <input
+              type='checkbox'
+              checked={spec.offAxisDiagonal ?? true}
+              onChange={(e) => updateOffAxisDiagonal(e.target.checked)}
+              disabled={disabled}
+            />
+            <span>Off-axis Newtonian diagonal</span>
+          </label>
+        ) : null}
       </div>
 
       <div className='grid grid-cols-2 gap-4'>
@@ -227,6 +327,22 @@ export function SpecEditor(props: {
             </div>
           </div>
 
+          <div className='flex flex-col gap-2'>
+            <label className='text-sm font-medium'>Max backfocus</label>
+            <input
+              className='w-full rounded-lg border border-zinc-200 bg-white px-3 py-2 text-sm'
+              type='number'
+              placeholder='fixed at min'
+              value={spec.constraints.maxBackFocus ?? ''}
+              onChange={(e) => updateMaxBackFocus(e.target.value)}
+              disabled={disabled}
+            />
+            <div className='text-xs text-zinc-500'>
+              {spec.constraints.backFocusUnits}; two-mirror designs range from
+              min to max
+            </div>
+          </div>
+
           <div className='flex flex-col gap-2'>
             <label className='text-sm font-medium'>
               Fully illuminated field radius
@@ -254,6 +370,55 @@ export function SpecEditor(props: {
         </div>
       </div>
 
+      <div>
+        <h3 className='text-sm font-semibold text-zinc-900'>Field sampling</h3>
+        <div className='mt-3 grid grid-cols-2 gap-3'>
+          {(Object.keys(FIELD_GRID_LABELS) as FieldGridKind[]).map((k) => (
+            <label key={k} className='flex items-center gap-2 text-sm'>
+              <input
+                type='checkbox'
+                checked={(spec.fieldGrid ?? DEFAULT_FIELD_GRID).includes(k)}
+                onChange={() => updateFieldGrid(k)}
+                disabled={disabled}
+              />
+              <span>{FIELD_GRID_LABELS[k]}</span>
+            </label>
+          ))}
+        </div>
+        <label className='mt-4 flex items-center gap-2 text-sm'>
+          <input
+            type='checkbox'
+            checked={spec.sensorFormat !== undefined}
+            onChange={(e) => updateSensorEnabled(e.target.checked)}
+            disabled={disabled}
+          />
+          <span>Rectangular sensor</span>
+        </label>
+        {spec.sensorFormat ? (
+          <div className='mt-3 grid grid-cols-3 items-end gap-4'>
+            <NumberField
+              label='Sensor width'
+              value={spec.sensorFormat.width}
+              step={0.1}
+              setValueAction={(v) => updateNumber('sensorFormat.width', v)}
+              disabled={disabled}
+            />
+            <NumberField
+              label='Sensor height'
+              value={spec.sensorFormat.height}
+              step={0.1}
+              setValueAction={(v) => updateNumber('sensorFormat.height', v)}
+              disabled={disabled}
+            />
+            <UnitsField
+              value={spec.sensorFormat.units}
+              setUnitsAction={(u) => updateUnits('sensorFormat.units', u)}
+              options={['mm', 'inch']}
+            />
+          </div>
+        ) : null}
+      </div>
+
       <div>
         <h3 className='text-sm font-semibold text-zinc-900'>Coatings</h3>
         <div className='mt-3 grid grid-cols-2 gap-4'>
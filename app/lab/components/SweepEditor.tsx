@@ -172,6 +172,33 @@ export function SweepEditor(props: {
     props.setSpecAction(setIn(spec, parts, next));
   }
 
+  function updateOptimize(enabled: boolean) {
+    if (disabled) return;
+    props.setSpecAction({
+      ...spec,
+      controlMode: enabled ? 'optimize' : 'design',
+    });
+  }
+
+  function updateAdaptive(enabled: boolean) {
+    if (disabled) return;
+    props.setSpecAction({
+      ...spec,
+      sweep: {
+        ...spec.sweep,
+        sampling: enabled ? { kind: 'adaptive' } : undefined,
+      },
+    });
+  }
+
+  function updateRanking(pareto: boolean) {
+    if (disabled) return;
+    props.setSpecAction({
+      ...spec,
+      ranking: pareto ? 'pareto' : 'weighted',
+    });
+  }
+
   return (
     <div className='flex flex-col gap-6'>
       <div>
@@ -243,8 +270,28 @@ export function SweepEditor(props: {
             setValueAction={(v) => updateNumber('sweep.systemFRatioStep', v)}
             disabled={disabled || isNewtonianOnly}
           />
+
+          <NumberField
+            label={`Backfocus step (${spec.constraints.backFocusUnits})`}
+            value={spec.sweep.backFocusStep ?? 0}
+            step={5}
+            min={0}
+            hint='0 leaves backfocus between min and max to the optimizer'
+            setValueAction={(v) => updateNumber('sweep.backFocusStep', v)}
+            disabled={disabled || spec.constraints.maxBackFocus === undefined}
+          />
         </div>
 
+        <label className='mt-3 flex items-center gap-2 text-sm'>
+          <input
+            type='checkbox'
+            checked={spec.sweep.sampling?.kind === 'adaptive'}
+            onChange={(e) => updateAdaptive(e.target.checked)}
+            disabled={disabled}
+          />
+          <span>Refine the grid where feasibility or score changes</span>
+        </label>
+
         <h3 className='mt-6 text-sm font-semibold text-zinc-900'>Weights</h3>
 
         <div className='mt-3 grid grid-cols-2 gap-4'>
@@ -280,6 +327,30 @@ export function SweepEditor(props: {
             disabled={disabled}
           />
         </div>
+
+        <h3 className='mt-6 text-sm font-semibold text-zinc-900'>Ranking</h3>
+
+        <label className='mt-3 flex items-center gap-2 text-sm'>
+          <input
+            type='checkbox'
+            checked={spec.ranking === 'pareto'}
+            onChange={(e) => updateRanking(e.target.checked)}
+            disabled={disabled}
+          />
+          <span>Rank by Pareto front, weights only breaking ties</span>
+        </label>
+
+        <h3 className='mt-6 text-sm font-semibold text-zinc-900'>Optimizer</h3>
+
+        <label className='mt-3 flex items-center gap-2 text-sm'>
+          <input
+            type='checkbox'
+            checked={spec.controlMode === 'optimize'}
+            onChange={(e) => updateOptimize(e.target.checked)}
+            disabled={disabled}
+          />
+          <span>Refine the best grid designs with Nelder–Mead</span>
+        </label>
       </div>
 
       {disabled ? (
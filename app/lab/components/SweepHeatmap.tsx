@@ -0,0 +1,489 @@
+// app/lab/components/SweepHeatmap.tsx
+'use client';
+
+import { useId, useState } from 'react';
+import type { Candidate, OpticDesignKind } from '../../../src/optics/types';
+import {
+  isPrimeFocusKind,
+  type SweepJob,
+  type SweepResult,
+} from '../../../src/optics/sweep';
+import { PARETO_OBJECTIVES } from '../../../src/optics/pareto';
+import { candidateLabel, fmtNumber } from '../../../src/ui/format';
+
+type Metric = {
+  key: string;
+  label: string;
+  sense: 'max' | 'min';
+  value: (c: Candidate) => number;
+};
+
+// Total score first, then the raw metrics the Pareto view compares.
+const METRICS: Metric[] = [
+  {
+    key: 'score',
+    label: 'Total score',
+    sense: 'max',
+    value: (c) => c.score.total,
+  },
+  ...PARETO_OBJECTIVES,
+];
+
+// One hatch per constraint checkConstraints can fail; a cell failing several
+// is cross-hatched.
+const REASON_HATCHES: Record<
+  string,
+  { angle: number; color: string; label: string }
+> = {
+  tube_length_exceeds_max: { angle: 45, color: '#dc2626', label: 'tube' },
+  obstruction_exceeds_max: {
+    angle: -45,
+    color: '#d97706',
+    label: 'obstruction',
+  },
+  backfocus_below_min: { angle: 0, color: '#7c3aed', label: 'backfocus min' },
+  backfocus_above_max: { angle: 90, color: '#0891b2', label: 'backfocus max' },
+};
+const OTHER_HATCH = { angle: 30, color: '#52525b', label: 'other' };
+
+const WORST_RGB = [239, 246, 255];
+const BEST_RGB = [30, 64, 175];
+const EMPTY_COLOR = '#fafafa';
+const NO_DESIGN_COLOR = '#ffffff';
+const FAILING_COLOR = '#f4f4f5';
+const UNEVALUATED_COLOR = '#a1a1aa';
+
+const PLOT_WIDTH = 392;
+const PLOT_HEIGHT = 240;
+const PRIME_HEIGHT = 24;
+const TICK_SPACING = 40;
+
+function shade(t: number): string {
+  const rgb = WORST_RGB.map((lo, i) => Math.round(lo + (BEST_RGB[i] - lo) * t));
+  return `rgb(${rgb.join(',')})`;
+}
+
+function hatchKey(reason: string): string {
+  return reason in REASON_HATCHES ? reason : 'other';
+}
+
+function hatchFor(key: string) {
+  return REASON_HATCHES[key] ?? OTHER_HATCH;
+}
+
+// A point on Fp × Fs and the rectangle it stands for. Without a candidate
+// the generator was run there and returned no design.
+type Cell = {
+  fp: number;
+  fs: number;
+  x: [number, number];
+  y: [number, number];
+  candidate?: Candidate;
+};
+
+type KindGrid = {
+  kind: OpticDesignKind;
+  cells: Cell[];
+  x: [number, number];
+  y: [number, number];
+};
+
+// The stretch of axis a value stands for: halfway to the nearest values
+// either side among the points on its line, or failing that among every
+// point of the kind. An end value mirrors the gap on its inner side.
+function span(value: number, line: number[], all: number[]): [number, number] {
+  const gaps = (values: number[]) => [
+    value - Math.max(...values.filter((v) => v < value)),
+    Math.min(...values.filter((v) => v > value)) - value,
+  ];
+  let [below, above] = gaps(line);
+  if (!Number.isFinite(below) && !Number.isFinite(above)) {
+    [below, above] = gaps(all);
+  }
+  if (!Number.isFinite(below)) below = above;
+  if (!Number.isFinite(above)) above = below;
+  if (!Number.isFinite(below)) return [value - 0.5, value + 0.5];
+  return [value - below / 2, value + above / 2];
+}
+
+// One cell per Fp, Fs of each kind, sized from its neighbours so adaptive
+// runs keep their true scale. Where extra axes put several designs on a
+// point, the best passing one stands for it, or failing that the first; a
+// point is empty only when no job there gave a design.
+function kindGrids(candidates: Candidate[], noDesign: SweepJob[]): KindGrid[] {
+  type Point = { fp: number; fs: number; candidate?: Candidate };
+  const byKind = new Map<OpticDesignKind, Map<string, Point>>();
+  const place = (kind: OpticDesignKind, fp: number, fs: number) => {
+    if (isPrimeFocusKind(kind)) fs = fp;
+    if (!Number.isFinite(fp) || !Number.isFinite(fs)) return null;
+    const points = byKind.get(kind) ?? new Map<string, Point>();
+    byKind.set(kind, points);
+    const key = `${fp}|${fs}`;
+    const point = points.get(key) ?? { fp, fs };
+    points.set(key, point);
+    return point;
+  };
+
+  for (const job of noDesign) {
+    place(job.kind, job.primaryFRatio, job.systemFRatio);
+  }
+  for (const c of candidates) {
+    const point = place(c.kind, c.inputs.primaryFRatio, c.inputs.systemFRatio);
+    if (!point) continue;
+    const held = point.candidate;
+    if (
+      !held ||
+      (c.constraints.pass &&
+        (!held.constraints.pass || c.score.total > held.score.total))
+    ) {
+      point.candidate = c;
+    }
+  }
+
+  return [...byKind].map(([kind, points]) => {
+    const list = [...points.values()];
+    const primeFocus = isPrimeFocusKind(kind);
+    const fps = list.map((p) => p.fp);
+    const fss = list.map((p) => p.fs);
+    const cells: Cell[] = list.map((p) => ({
+      ...p,
+      x: span(
+        p.fp,
+        list.filter((q) => q.fs === p.fs).map((q) => q.fp),
+        fps
+      ),
+      y: primeFocus
+        ? [0, 1]
+        : span(
+            p.fs,
+            list.filter((q) => q.fp === p.fp).map((q) => q.fs),
+            fss
+          ),
+    }));
+    return {
+      kind,
+      // Larger cells first, so a finer one drawn over a coarse one shows.
+      cells: cells.sort(
+        (a, b) =>
+          (b.x[1] - b.x[0]) * (b.y[1] - b.y[0]) -
+          (a.x[1] - a.x[0]) * (a.y[1] - a.y[0])
+      ),
+      x: [
+        Math.min(...cells.map((c) => c.x[0])),
+        Math.max(...cells.map((c) => c.x[1])),
+      ],
+      y: [
+        Math.min(...cells.map((c) => c.y[0])),
+        Math.max(...cells.map((c) => c.y[1])),
+      ],
+    };
+  });
+}
+
+// Distinct values far enough apart on screen to label without overlap.
+function ticks(values: number[], at: (v: number) => number): number[] {
+  const out: number[] = [];
+  for (const v of [...new Set(values)].sort((a, b) => a - b)) {
+    const last = out[out.length - 1];
+    if (last === undefined || Math.abs(at(v) - at(last)) >= TICK_SPACING) {
+      out.push(v);
+    }
+  }
+  return out;
+}
+
+function KindMap(props: {
+  grid: KindGrid;
+  metric: Metric;
+  colorAt: (c: Candidate) => string | null;
+  patternId: (key: string) => string;
+  selectedId: string | null;
+  selectAction?: (c: Candidate) => void;
+}) {
+  const { grid } = props;
+  const primeFocus = isPrimeFocusKind(grid.kind);
+  const pad = 44;
+  const width = PLOT_WIDTH + 2 * pad;
+  const plotHeight = primeFocus ? PRIME_HEIGHT : PLOT_HEIGHT;
+  const bottom = pad + plotHeight;
+  const height = bottom + 34;
+
+  const [xLo, xHi] = grid.x;
+  const [yLo, yHi] = grid.y;
+  const sx = (v: number) => pad + ((v - xLo) / (xHi - xLo)) * PLOT_WIDTH;
+  const sy = (v: number) => pad + ((yHi - v) / (yHi - yLo)) * plotHeight;
+
+  return (
+    <svg
+      xmlns='http://www.w3.org/2000/svg'
+      width={width}
+      height={height}
+      viewBox={`0 0 ${width} ${height}`}
+      style={{ fontFamily: 'monospace', fontSize: 10 }}
+    >
+      <rect x={0} y={0} width={width} height={height} fill='white' />
+      <text x={pad} y={pad - 24} fontWeight='bold'>
+        {grid.kind}
+      </text>
+      <rect
+        x={pad}
+        y={pad}
+        width={PLOT_WIDTH}
+        height={plotHeight}
+        fill={`url(#${props.patternId('unevaluated')})`}
+        stroke='#d4d4d8'
+      />
+
+      {grid.cells.map(({ fp, fs, x: xs, y: ys, candidate: c }) => {
+        const x = sx(xs[0]);
+        const y = sy(ys[1]);
+        const w = sx(xs[1]) - x;
+        const h = sy(ys[0]) - y;
+        const key = `${fp}|${fs}`;
+        if (!c) {
+          return (
+            <g key={key}>
+              <rect
+                x={x}
+                y={y}
+                width={w}
+                height={h}
+                fill={NO_DESIGN_COLOR}
+                stroke='#d4d4d8'
+                strokeWidth={0.5}
+              />
+              <title>
+                {primeFocus
+                  ? `Fp ${fmtNumber(fp, 3)}\nno design`
+                  : `Fp ${fmtNumber(fp, 3)} Fs ${fmtNumber(fs, 3)}\nno design`}
+              </title>
+            </g>
+          );
+        }
+        const fill = props.colorAt(c);
+        const hatches = [...new Set(c.constraints.reasons.map(hatchKey))];
+        const selected = c.id === props.selectedId;
+        const select = c.constraints.pass ? props.selectAction : undefined;
+        return (
+          <g
+            key={key}
+            style={{ cursor: select ? 'pointer' : undefined }}
+            onClick={() => select?.(c)}
+          >
+            <rect
+              x={x}
+              y={y}
+              width={w}
+              height={h}
+              fill={fill ?? FAILING_COLOR}
+            />
+            {fill
+              ? null
+              : hatches.map((hatch) => (
+                  <rect
+                    key={hatch}
+                    x={x}
+                    y={y}
+                    width={w}
+                    height={h}
+                    fill={`url(#${props.patternId(hatch)})`}
+                  />
+                ))}
+            {selected ? (
+              <rect
+                x={x + 1}
+                y={y + 1}
+                width={Math.max(0, w - 2)}
+                height={Math.max(0, h - 2)}
+                fill='none'
+                stroke='#18181b'
+                strokeWidth={2}
+              />
+            ) : null}
+            <title>
+              {c.constraints.pass
+                ? `${candidateLabel(c)}\n${props.metric.label} ${fmtNumber(props.metric.value(c), 4)} | score ${fmtNumber(c.score.total, 3)}`
+                : `${candidateLabel(c)}\nfails: ${c.constraints.reasons.join(', ')}`}
+            </title>
+          </g>
+        );
+      })}
+
+      {ticks(
+        grid.cells.map((c) => c.fp),
+        sx
+      ).map((v) => (
+        <text key={`x${v}`} x={sx(v)} y={bottom + 12} textAnchor='middle'>
+          {fmtNumber(v, 2)}
+        </text>
+      ))}
+      <text x={width / 2} y={bottom + 26} textAnchor='middle'>
+        primary f-ratio
+      </text>
+
+      {primeFocus ? (
+        <text x={pad - 4} y={pad + plotHeight / 2 + 3} textAnchor='end'>
+          prime
+        </text>
+      ) : (
+        ticks(
+          grid.cells.map((c) => c.fs),
+          sy
+        ).map((v) => (
+          <text key={`y${v}`} x={pad - 4} y={sy(v) + 3} textAnchor='end'>
+            {fmtNumber(v, 2)}
+          </text>
+        ))
+      )}
+      {primeFocus ? null : (
+        <text x={pad} y={pad - 8}>
+          system f-ratio ↑
+        </text>
+      )}
+    </svg>
+  );
+}
+
+// Every swept design laid out on Fp × Fs, one map per kind. Passing cells are
+// coloured by the chosen metric on one scale across kinds, darker being
+// better; failing cells are hatched by the constraints they fail, points
+// where no design came back are white, and the dotted ground was never
+// evaluated. The optimizer's designs sit off the grid and are left out.
+// Clicking a passing cell hands its candidate on.
+export function SweepHeatmap(props: {
+  result: SweepResult;
+  selectedId: string | null;
+  selectAction?: (c: Candidate) => void;
+}) {
+  const [metricKey, setMetricKey] = useState('score');
+  const metric = METRICS.find((m) => m.key === metricKey) ?? METRICS[0];
+  const uid = useId().replace(/[^a-zA-Z0-9_-]/g, '');
+  const patternId = (key: string) => `${uid}-hatch-${key}`;
+
+  const optimized = new Set(
+    (props.result.optimization?.runs ?? []).flatMap((run) =>
+      run.candidate ? [`${run.candidate.id}-opt`] : []
+    )
+  );
+  // Scores are only set on ranked candidates, so passing ones are taken
+  // from there.
+  const scored = new Map(props.result.ranked.map((c) => [c.id, c]));
+  const candidates = props.result.candidates
+    .filter((c) => !optimized.has(c.id))
+    .map((c) => scored.get(c.id) ?? c);
+
+  const grids = kindGrids(candidates, props.result.noDesign ?? []);
+  const passingValues = grids
+    .flatMap((g) => g.cells)
+    .flatMap((cell) =>
+      cell.candidate?.constraints.pass ? [metric.value(cell.candidate)] : []
+    )
+    .filter(Number.isFinite);
+  const lo = Math.min(...passingValues);
+  const hi = Math.max(...passingValues);
+
+  const colorAt = (c: Candidate): string | null => {
+    if (!c.constraints.pass) return null;
+    const v = metric.value(c);
+    if (!Number.isFinite(v)) return EMPTY_COLOR;
+    const t = hi > lo ? (v - lo) / (hi - lo) : 1;
+    return shade(metric.sense === 'max' ? t : 1 - t);
+  };
+
+  const reasons = new Set(
+    candidates.flatMap((c) => c.constraints.reasons.map(hatchKey))
+  );
+
+  return (
+    <div className='mt-2 flex flex-col gap-2 text-xs'>
+      <label className='flex items-center gap-2'>
+        <span>Colour</span>
+        <select
+          className='rounded-lg border border-zinc-200 bg-white px-2 py-1 text-xs text-zinc-900'
+          value={metric.key}
+          onChange={(e) => setMetricKey(e.target.value)}
+        >
+          {METRICS.map((m) => (
+            <option key={m.key} value={m.key}>
+              {m.label}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <svg width={0} height={0} style={{ position: 'absolute' }}>
+        <defs>
+          <pattern
+            id={patternId('unevaluated')}
+            width={4}
+            height={4}
+            patternUnits='userSpaceOnUse'
+          >
+            <circle cx={2} cy={2} r={0.6} fill={UNEVALUATED_COLOR} />
+          </pattern>
+          {[...reasons].map((key) => {
+            const h = hatchFor(key);
+            return (
+              <pattern
+                key={key}
+                id={patternId(key)}
+                width={6}
+                height={6}
+                patternUnits='userSpaceOnUse'
+                patternTransform={`rotate(${h.angle})`}
+              >
+                <line
+                  x1={0}
+                  y1={0}
+                  x2={0}
+                  y2={6}
+                  stroke={h.color}
+                  strokeWidth={1.5}
+                />
+              </pattern>
+            );
+          })}
+        </defs>
+      </svg>
+
+      {grids.length === 0 ? (
+        <div>No designs to map.</div>
+      ) : (
+        grids.map((g) => (
+          <KindMap
+            key={g.kind}
+            grid={g}
+            metric={metric}
+            colorAt={colorAt}
+            patternId={patternId}
+            selectedId={props.selectedId}
+            selectAction={props.selectAction}
+          />
+        ))
+      )}
+
+      <div className='flex flex-wrap items-center gap-3 text-zinc-500'>
+        {passingValues.length > 0 ? (
+          <span>
+            <span style={{ color: shade(0) }}>■</span>{' '}
+            {fmtNumber(metric.sense === 'max' ? lo : hi, 3)} to{' '}
+            <span style={{ color: shade(1) }}>■</span>{' '}
+            {fmtNumber(metric.sense === 'max' ? hi : lo, 3)}
+          </span>
+        ) : null}
+        {[...reasons].map((key) => (
+          <span key={key}>
+            <span style={{ color: hatchFor(key).color }}>▨</span> fails{' '}
+            {hatchFor(key).label}
+          </span>
+        ))}
+        <span>
+          <span style={{ color: '#d4d4d8' }}>□</span> no design
+        </span>
+        <span>
+          <span style={{ color: UNEVALUATED_COLOR }}>⋯</span> not evaluated
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+// app/lab/components/SweepProgress.tsx
+'use client';
+
+export type SweepStatus = {
+  stage: 'grid' | 'optimizer';
+  done: number;
+  total: number;
+  running: boolean;
+};
+
+export function SweepProgress(props: {
+  status: SweepStatus;
+  cancelAction: () => void;
+}) {
+  const { stage, done, total, running } = props.status;
+  const unit = stage === 'optimizer' ? 'optimizer seeds' : 'designs';
+  const fraction = total > 0 ? Math.min(1, done / total) : 0;
+
+  return (
+    <div className='mb-4 flex flex-col gap-2 text-xs text-zinc-600'>
+      <div className='flex items-center justify-between gap-3'>
+        <div>
+          {running
+            ? `${stage === 'optimizer' ? 'Optimizing' : 'Sweeping'}… ${done} of ${total} ${unit} done`
+            : `Cancelled after ${done} of ${total} ${unit}`}
+        </div>
+        {running ? (
+          <button
+            className='rounded-lg border border-zinc-300 bg-white px-3 py-1 text-xs font-medium text-zinc-900'
+            onClick={props.cancelAction}
+            type='button'
+          >
+            Cancel
+          </button>
+        ) : null}
+      </div>
+      <div className='h-2 w-full overflow-hidden rounded-full bg-zinc-200'>
+        <div
+          className={[
+            'h-full rounded-full transition-[width]',
+            running ? 'bg-zinc-900' : 'bg-zinc-400',
+          ].join(' ')}
+          style={{ width: `${(fraction * 100).toFixed(1)}%` }}
+        />
+      </div>
+    </div>
+  );
+}
@@ -11,7 +11,7 @@ import {
 export function TopTable(props: { candidates: Candidate[]; tubeUnits: Units }) {
   return (
     <div className='mt-2 overflow-x-auto'>
-      <table className='w-full min-w-[1120px] border-collapse text-xs'>
+      <table className='w-full min-w-[1280px] border-collapse text-xs'>
         <thead>
           <tr className='text-left text-zinc-600'>
             <th className='border-b border-zinc-200 py-2 pr-3'>candidate</th>
@@ -22,6 +22,8 @@ export function TopTable(props: { candidates: Candidate[]; tubeUnits: Units }) {
             <th className='border-b border-zinc-200 py-2 pr-3'>usableTerm</th>
             <th className='border-b border-zinc-200 py-2 pr-3'>aberrTerm</th>
             <th className='border-b border-zinc-200 py-2 pr-3'>wfe</th>
+            <th className='border-b border-zinc-200 py-2 pr-3'>wfeWorst</th>
+            <th className='border-b border-zinc-200 py-2 pr-3'>wfeMean</th>
             <th className='border-b border-zinc-200 py-2 pr-3'>coma</th>
             <th className='border-b border-zinc-200 py-2 pr-3'>astig</th>
             <th className='border-b border-zinc-200 py-2 pr-3'>fieldCurv</th>
@@ -59,6 +61,12 @@ export function TopTable(props: { candidates: Candidate[]; tubeUnits: Units }) {
               <td className='border-b border-zinc-100 py-2 pr-3'>
                 {fmtNumber(c.aberrations.wfeRms_waves_edge, 6)}
               </td>
+              <td className='border-b border-zinc-100 py-2 pr-3'>
+                {fmtNumber(c.aberrations.wfeRms_waves_worst ?? NaN, 6)}
+              </td>
+              <td className='border-b border-zinc-100 py-2 pr-3'>
+                {fmtNumber(c.aberrations.wfeRms_waves_mean ?? NaN, 6)}
+              </td>
               <td className='border-b border-zinc-100 py-2 pr-3'>
                 {fmtNumber(c.aberrations.coma_wfeRms_waves_edge, 6)}
               </td>
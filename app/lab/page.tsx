@@ -1,12 +1,17 @@
 // app/lab/page.tsx
 'use client';
 
-import { useMemo, useState } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
 import type { InputSpec } from '../../src/optics/types';
 import type { SweepResult } from '../../src/optics/sweep';
 import type { DesignContext } from '../../src/optics/designs/types';
 
-import { inferDerivedLimits, runSweep } from '../../src/optics/sweep';
+import { inferDerivedLimits } from '../../src/optics/sweep';
+import {
+  createSweepRunner,
+  type SweepProgress as SweepRunProgress,
+  type SweepRunner,
+} from '../../src/optics/sweepRunner';
 import { presets } from '../../src/ui/presets';
 import { defaultLabState } from '../../src/ui/state';
 
@@ -17,9 +22,13 @@ import { SpecEditor } from './components/SpecEditor';
 import { SweepEditor } from './components/SweepEditor';
 import { ResultsPanel } from './components/ResultsPanel';
 import { Export } from './components/Export';
+import { SweepProgress, type SweepStatus } from './components/SweepProgress';
 
 import { toMm } from '../../src/optics/units';
-import { DEFAULT_TUBE_MARGIN_MM } from '../../src/optics/constants';
+import {
+  DEFAULT_PIXEL_SIZE_UM,
+  DEFAULT_TUBE_MARGIN_MM,
+} from '../../src/optics/constants';
 import { createRaytraceSimulator } from '../../src/optics/raytrace/simulator';
 
 type SyncMode = 'design' | 'sweep';
@@ -230,6 +239,19 @@ function ensureFeasibleSpec(spec: InputSpec): {
   return { spec: next, warnings };
 }
 
+// Derived limits for a spec, worked out by a sweep on the runner, and the spec
+// made feasible against them. Null when the sweep was cancelled.
+async function deriveFeasibleSpec(
+  runner: SweepRunner,
+  spec: InputSpec,
+  signal: AbortSignal,
+  onProgress?: (progress: SweepRunProgress) => void
+): Promise<{ spec: InputSpec; warnings: string[] } | null> {
+  const run = await runner.run(spec, { signal, onProgress });
+  if (run.cancelled) return null;
+  return ensureFeasibleSpec(run.result.derivedSpec ?? spec);
+}
+
 function ToggleSwitch(props: {
   leftLabel: string;
   rightLabel: string;
@@ -289,28 +311,48 @@ export default function LabPage() {
     return {
       simulator: createRaytraceSimulator(),
       scoringSampleSpec: {
-        pupil: { kind: 'grid', steps: 9 },
-        raysPerField: 49,
+        pupil: { kind: 'grid' },
+        raysPerField: 64,
         maxBounces: 8,
+        wavelengths: [
+          { wavelength_nm: 486.1, weight: 0.5 },
+          { wavelength_nm: 587.6, weight: 1 },
+          { wavelength_nm: 656.3, weight: 0.5 },
+        ],
+        pixelSize_um: DEFAULT_PIXEL_SIZE_UM,
       },
     };
   }, []);
 
-  const [syncMode, setSyncMode] = useState<SyncMode>('design');
+  const runner = useMemo(() => createSweepRunner(ctx), [ctx]);
+  useEffect(() => () => runner.dispose(), [runner]);
 
-  const boot0 = reconcile(structuredClone(initial.spec), 'design');
-  const boot1 = inferDerivedLimits(boot0, ctx);
-  const bootFeasible = ensureFeasibleSpec(boot1);
+  const [syncMode, setSyncMode] = useState<SyncMode>('design');
 
-  const [spec, setSpec] = useState<InputSpec>(() =>
-    structuredClone(bootFeasible.spec)
+  // The page opens on the reconciled preset and fills in its derived limits
+  // from a sweep in the background.
+  const [boot] = useState(() =>
+    ensureFeasibleSpec(reconcile(structuredClone(initial.spec), 'design'))
   );
+
+  const [spec, setSpec] = useState<InputSpec>(() => structuredClone(boot.spec));
   const [topN, setTopN] = useState<number>(initial.topN);
   const [result, setResult] = useState<SweepResult | null>(null);
+  const [status, setStatus] = useState<SweepStatus | null>(null);
   const [loadedSpecFilename, setLoadedSpecFilename] = useState<string>('');
-  const [warnings, setWarnings] = useState<string[]>(
-    () => bootFeasible.warnings
-  );
+  const [warnings, setWarnings] = useState<string[]>(() => boot.warnings);
+
+  const activeRun = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    deriveFeasibleSpec(runner, boot.spec, controller.signal).then((out) => {
+      if (!out) return;
+      setSpec(structuredClone(out.spec));
+      setWarnings(out.warnings);
+    });
+    return () => controller.abort();
+  }, [runner, boot]);
 
   const currentPresetId = useMemo(() => {
     const found = presets.find(
@@ -319,30 +361,54 @@ export default function LabPage() {
     return found ? found.id : '';
   }, [spec]);
 
-  function runAndSync(
+  // Sweeps the spec as given to find its derived limits, showing the ranking
+  // so far as chunks come back, then re-sweeps once the ranges are clamped to
+  // those limits. The re-sweeps find every job in the runner's cache.
+  async function sweepAndSync(
     nextSpec: InputSpec,
-    nextTopN: number
-  ): {
+    nextTopN: number,
+    signal: AbortSignal,
+    onProgress: (p: SweepRunProgress) => void
+  ): Promise<{
     spec: InputSpec;
     warnings: string[];
     result: SweepResult;
-  } {
-    const withLimits0 = inferDerivedLimits(nextSpec, ctx);
+  } | null> {
+    const pass0 = await runner.run(nextSpec, {
+      topN: nextTopN,
+      signal,
+      onProgress,
+    });
+    if (pass0.cancelled) return null;
+
+    const withLimits0 = pass0.result.derivedSpec ?? nextSpec;
     const tuned0 = ensureFeasibleSpec(withLimits0);
 
-    const sweep0 = runSweep(tuned0.spec, ctx, nextTopN);
+    const run0 = await runner.run(tuned0.spec, {
+      topN: nextTopN,
+      signal,
+      onProgress,
+    });
+    if (run0.cancelled) return null;
+    const sweep0 = run0.result;
     const sweepWarnings0 = Array.isArray(sweep0.warnings)
       ? sweep0.warnings
       : [];
 
     const applied0 = sweep0.appliedSpec ?? tuned0.spec;
-    const withLimits1 = sweep0.derivedSpec ?? inferDerivedLimits(applied0, ctx);
+    const withLimits1 = sweep0.derivedSpec ?? applied0;
     const tuned1 = ensureFeasibleSpec(withLimits1);
 
     const combined = mergeWarnings(tuned1.warnings, sweepWarnings0);
 
     if (JSON.stringify(tuned1.spec) !== JSON.stringify(tuned0.spec)) {
-      const sweep1 = runSweep(tuned1.spec, ctx, nextTopN);
+      const run1 = await runner.run(tuned1.spec, {
+        topN: nextTopN,
+        signal,
+        onProgress,
+      });
+      if (run1.cancelled) return null;
+      const sweep1 = run1.result;
       const sweepWarnings1 = Array.isArray(sweep1.warnings)
         ? sweep1.warnings
         : [];
@@ -360,6 +426,76 @@ export default function LabPage() {
     };
   }
 
+  // In optimize mode the final grid result is refined by the continuous
+  // optimizer before it is shown.
+  async function runAndSync(
+    nextSpec: InputSpec,
+    nextTopN: number,
+    signal: AbortSignal
+  ): Promise<{
+    spec: InputSpec;
+    warnings: string[];
+    result: SweepResult;
+  } | null> {
+    const onProgress = (p: SweepRunProgress) => {
+      setStatus({
+        stage: p.stage,
+        done: p.done,
+        total: p.total,
+        running: true,
+      });
+      setResult(p.result);
+    };
+
+    const synced = await sweepAndSync(nextSpec, nextTopN, signal, onProgress);
+    if (!synced || synced.spec.controlMode !== 'optimize') return synced;
+
+    const refined = await runner.optimize(synced.spec, synced.result, {
+      topN: nextTopN,
+      signal,
+      onProgress,
+    });
+    if (refined.cancelled) return null;
+    return { ...synced, result: refined.result };
+  }
+
+  // Starts a run, cancelling any still going. Only the latest run may touch
+  // state once it settles; a cancelled one leaves its partial ranking up.
+  function beginRun(): AbortController {
+    activeRun.current?.abort();
+    const controller = new AbortController();
+    activeRun.current = controller;
+    setStatus({ stage: 'grid', done: 0, total: 0, running: true });
+    return controller;
+  }
+
+  function endRun(controller: AbortController): boolean {
+    if (activeRun.current !== controller) return false;
+    activeRun.current = null;
+    return true;
+  }
+
+  function startSweep(nextSpec: InputSpec, nextTopN: number) {
+    const controller = beginRun();
+    runAndSync(nextSpec, nextTopN, controller.signal).then((out) => {
+      if (!endRun(controller)) return;
+      if (!out) {
+        setStatus((prev) => (prev ? { ...prev, running: false } : null));
+        return;
+      }
+      setStatus(null);
+      if (JSON.stringify(out.spec) !== JSON.stringify(nextSpec)) {
+        setSpec(structuredClone(out.spec));
+      }
+      setWarnings(out.warnings);
+      setResult(structuredClone(out.result));
+    });
+  }
+
+  function cancelAction() {
+    activeRun.current?.abort();
+  }
+
   function applySpec(next: InputSpec) {
     const withLimits = inferDerivedLimits(next, ctx);
     const tuned = ensureFeasibleSpec(withLimits);
@@ -369,42 +505,46 @@ export default function LabPage() {
   }
 
   function runAction() {
-    const out = runAndSync(spec, topN);
-    if (JSON.stringify(out.spec) !== JSON.stringify(spec)) {
-      setSpec(structuredClone(out.spec));
-    }
-    setWarnings(out.warnings);
-    setResult(structuredClone(out.result));
+    startSweep(spec, topN);
   }
 
   function setSyncModeAction(nextMode: SyncMode) {
     setSyncMode(nextMode);
 
-    setSpec((prev) => {
-      const next = reconcile(prev, nextMode);
-      const withLimits = inferDerivedLimits(next, ctx);
-      const tuned = ensureFeasibleSpec(withLimits);
-      setWarnings(tuned.warnings);
-      return structuredClone(tuned.spec);
-    });
-
+    const next = reconcile(spec, nextMode);
+    setSpec(structuredClone(next));
     setResult(null);
+
+    const controller = beginRun();
+    deriveFeasibleSpec(runner, next, controller.signal, (p) =>
+      setStatus({
+        stage: p.stage,
+        done: p.done,
+        total: p.total,
+        running: true,
+      })
+    ).then((out) => {
+      if (!endRun(controller)) return;
+      if (!out) {
+        setStatus((prev) => (prev ? { ...prev, running: false } : null));
+        return;
+      }
+      setStatus(null);
+      setSpec(structuredClone(out.spec));
+      setWarnings(out.warnings);
+    });
   }
 
   function setSpecFromDesign(next: InputSpec) {
     const reconciled = reconcileFromDesign(next);
-    const out = runAndSync(reconciled, topN);
-    setSpec(structuredClone(out.spec));
-    setWarnings(out.warnings);
-    setResult(structuredClone(out.result));
+    setSpec(structuredClone(reconciled));
+    startSweep(reconciled, topN);
   }
 
   function setSpecFromSweep(next: InputSpec) {
     const reconciled = reconcileFromSweep(next);
-    const out = runAndSync(reconciled, topN);
-    setSpec(structuredClone(out.spec));
-    setWarnings(out.warnings);
-    setResult(structuredClone(out.result));
+    setSpec(structuredClone(reconciled));
+    startSweep(reconciled, topN);
   }
 
   function loadPresetAction(id: string) {
@@ -414,20 +554,16 @@ export default function LabPage() {
     setLoadedSpecFilename('');
 
     const nextSpec = reconcile(structuredClone(p.spec), syncMode);
-    const out = runAndSync(nextSpec, topN);
-    setSpec(structuredClone(out.spec));
-    setWarnings(out.warnings);
-    setResult(structuredClone(out.result));
+    setSpec(structuredClone(nextSpec));
+    startSweep(nextSpec, topN);
   }
 
   function loadSpecAction(nextSpec: InputSpec, nextTopN: number) {
     setTopN(nextTopN);
 
     const reconciled = reconcile(structuredClone(nextSpec), syncMode);
-    const out = runAndSync(reconciled, nextTopN);
-    setSpec(structuredClone(out.spec));
-    setWarnings(out.warnings);
-    setResult(structuredClone(out.result));
+    setSpec(structuredClone(reconciled));
+    startSweep(reconciled, nextTopN);
   }
 
   function setTopNAction(next: number) {
@@ -570,6 +706,9 @@ export default function LabPage() {
           ) : null}
 
           <div className='rounded-xl border border-zinc-200 bg-white p-5 lg:col-span-2'>
+            {status ? (
+              <SweepProgress status={status} cancelAction={cancelAction} />
+            ) : null}
             <ResultsPanel
               result={result}
               runAction={runAction}
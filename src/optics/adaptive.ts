@@ -0,0 +1,278 @@
+// src/optics/adaptive.ts
+import type {
+  Candidate,
+  InputSpec,
+  OpticDesignKind,
+  SweepPoint,
+} from "./types";
+import type { DesignContext } from "./designs/types";
+import type { CandidateCache } from "./candidateCache";
+import type { SweepEntry } from "./sweepProtocol";
+
+import {
+  checkConstraints,
+  evaluateSweepJob,
+  noDesignJobs,
+  rankSweep,
+  rawCandidates,
+  sweepJobs,
+  type SweepJob,
+  type SweepResult,
+} from "./sweep";
+import { computeScoreBounds, scoreCandidate } from "./score";
+import { ADAPTIVE_MAX_LEVELS, ADAPTIVE_SCORE_TOLERANCE } from "./constants";
+
+// One pass of an adaptive sweep: the f-ratio steps it ran at, the cells it
+// covered and how many of those were split, and the designs it added.
+export type RefinementLevel = {
+  level: number;
+  primaryFRatioStep: number;
+  systemFRatioStep: number;
+  cells: number;
+  split: number;
+  jobs: number;
+};
+
+export type Refinement = {
+  // Jobs for the next level, judged on every entry so far; empty once no
+  // cell needs splitting or the last level has run.
+  next(entries: SweepEntry[]): SweepJob[];
+  levels(): RefinementLevel[];
+};
+
+// A rectangle of the Fp×Fs plane for one kind at one sweep point, with a job
+// at each corner. A side of zero width is never split. Prime-focus cells are
+// tied: one side only, their jobs carrying the primary f-ratio in both.
+type Cell = {
+  kind: OpticDesignKind;
+  point?: SweepPoint;
+  tied: boolean;
+  fp: [number, number];
+  fs: [number, number];
+};
+
+function midpoint(lo: number, hi: number): number {
+  return Number(((lo + hi) / 2).toFixed(10));
+}
+
+function groupKey(kind: OpticDesignKind, point?: SweepPoint): string {
+  return `${kind}|${JSON.stringify(point ?? {})}`;
+}
+
+function jobKey(job: SweepJob): string {
+  return `${groupKey(job.kind, job.point)}|${job.primaryFRatio}|${job.systemFRatio}`;
+}
+
+function cornerJobs(cell: Cell): SweepJob[] {
+  const fps = cell.fp[0] === cell.fp[1] ? [cell.fp[0]] : cell.fp;
+  const fss = cell.fs[0] === cell.fs[1] ? [cell.fs[0]] : cell.fs;
+  const out: SweepJob[] = [];
+  for (const fp of fps) {
+    for (const fs of cell.tied ? [fp] : fss) {
+      const job: SweepJob = {
+        kind: cell.kind,
+        primaryFRatio: fp,
+        systemFRatio: fs,
+      };
+      if (cell.point) job.point = cell.point;
+      out.push(job);
+    }
+  }
+  return out;
+}
+
+function halves([lo, hi]: [number, number]): [number, number][] {
+  if (!(hi > lo)) return [[lo, hi]];
+  const mid = midpoint(lo, hi);
+  return [
+    [lo, mid],
+    [mid, hi],
+  ];
+}
+
+function splitCell(cell: Cell): Cell[] {
+  return halves(cell.fp).flatMap((fp) =>
+    (cell.tied ? [cell.fs] : halves(cell.fs)).map((fs) => ({
+      ...cell,
+      fp,
+      fs,
+    })),
+  );
+}
+
+// Spans between neighbouring values, or the one value when there is only one.
+function spans(values: number[]): [number, number][] {
+  if (values.length === 1) return [[values[0], values[0]]];
+  const out: [number, number][] = [];
+  for (let i = 0; i + 1 < values.length; i++) {
+    out.push([values[i], values[i + 1]]);
+  }
+  return out;
+}
+
+// Cells between neighbouring grid jobs, per kind and sweep point.
+function gridCells(jobs: SweepJob[]): Cell[] {
+  const groups = new Map<string, SweepJob[]>();
+  for (const job of jobs) {
+    const key = groupKey(job.kind, job.point);
+    groups.set(key, [...(groups.get(key) ?? []), job]);
+  }
+
+  const out: Cell[] = [];
+  for (const group of groups.values()) {
+    const { kind, point } = group[0];
+    const tied = group.every((j) => j.systemFRatio === j.primaryFRatio);
+    const sorted = (values: number[]) =>
+      [...new Set(values)].filter(Number.isFinite).sort((a, b) => a - b);
+    const fpSpans = spans(sorted(group.map((j) => j.primaryFRatio)));
+    const fsSpans = tied
+      ? [[NaN, NaN] as [number, number]]
+      : spans(sorted(group.map((j) => j.systemFRatio)));
+
+    for (const fp of fpSpans) {
+      for (const fs of fsSpans) {
+        if (!(fp[1] > fp[0]) && !(fs[1] > fs[0])) continue;
+        out.push({ kind, point, tied, fp, fs });
+      }
+    }
+  }
+  return out;
+}
+
+// Each passing job's score among all passing designs so far. Jobs with no
+// design, or one that fails the constraints, are left out.
+function passingScores(
+  spec: InputSpec,
+  entries: SweepEntry[],
+): Map<string, number> {
+  const checked = entries.map((e) => ({
+    key: jobKey(e.job),
+    candidate: e.candidate && checkConstraints(spec, e.candidate),
+  }));
+  const passing = checked
+    .map((e) => e.candidate)
+    .filter((c): c is Candidate => c !== null && c.constraints.pass);
+  if (passing.length === 0) return new Map();
+  const bounds = computeScoreBounds(passing);
+
+  const out = new Map<string, number>();
+  for (const { key, candidate } of checked) {
+    if (candidate?.constraints.pass) {
+      out.set(key, scoreCandidate(candidate, bounds, spec.weights).score.total);
+    }
+  }
+  return out;
+}
+
+// A cell is split when some corners pass and some do not, which puts a
+// feasibility edge inside it, or when its corners all pass but differ in
+// score by more than the tolerance.
+function needsSplit(
+  scores: (number | undefined)[],
+  tolerance: number,
+): boolean {
+  const passing = scores.filter((s): s is number => s !== undefined);
+  if (passing.length === 0) return false;
+  if (passing.length < scores.length) return true;
+  return Math.max(...passing) - Math.min(...passing) > tolerance;
+}
+
+// Drives an adaptive sweep: starts from the spec's grid jobs, and each call
+// to next() splits the cells of the last level that need it and returns the
+// corner jobs not yet evaluated.
+export function createRefinement(
+  spec: InputSpec,
+  coarse: SweepJob[],
+): Refinement {
+  const sampling = spec.sweep.sampling;
+  const adaptive = sampling?.kind === "adaptive" ? sampling : null;
+  const maxLevels = Math.max(
+    0,
+    Math.floor(adaptive?.levels ?? ADAPTIVE_MAX_LEVELS),
+  );
+  const tolerance = adaptive?.tolerance ?? ADAPTIVE_SCORE_TOLERANCE;
+
+  const seen = new Set(coarse.map(jobKey));
+  let cells = gridCells(coarse);
+  const levels: RefinementLevel[] = [
+    {
+      level: 0,
+      primaryFRatioStep: spec.sweep.primaryFRatioStep,
+      systemFRatioStep: spec.sweep.systemFRatioStep,
+      cells: cells.length,
+      split: 0,
+      jobs: coarse.length,
+    },
+  ];
+
+  function next(entries: SweepEntry[]): SweepJob[] {
+    const current = levels[levels.length - 1];
+    if (current.level >= maxLevels || cells.length === 0) return [];
+
+    const scores = passingScores(spec, entries);
+    const split = cells.filter((cell) =>
+      needsSplit(
+        cornerJobs(cell).map((job) => scores.get(jobKey(job))),
+        tolerance,
+      ),
+    );
+    current.split = split.length;
+    if (split.length === 0) {
+      cells = [];
+      return [];
+    }
+
+    cells = split.flatMap(splitCell);
+    const jobs: SweepJob[] = [];
+    for (const cell of cells) {
+      for (const job of cornerJobs(cell)) {
+        const key = jobKey(job);
+        if (seen.has(key)) continue;
+        seen.add(key);
+        jobs.push(job);
+      }
+    }
+
+    const scale = 2 ** (current.level + 1);
+    levels.push({
+      level: current.level + 1,
+      primaryFRatioStep: spec.sweep.primaryFRatioStep / scale,
+      systemFRatioStep: spec.sweep.systemFRatioStep / scale,
+      cells: cells.length,
+      split: 0,
+      jobs: jobs.length,
+    });
+    return jobs;
+  }
+
+  return {
+    next,
+    levels: () => levels.map((l) => ({ ...l })),
+  };
+}
+
+// The adaptive counterpart of runSweep: the grid first, then each level's
+// jobs, ranked together at the end with the levels recorded.
+export function runAdaptiveSweep(
+  spec: InputSpec,
+  ctx: DesignContext,
+  topN: number = 25,
+  cache?: CandidateCache,
+): SweepResult {
+  let jobs = sweepJobs(spec);
+  const refinement = createRefinement(spec, jobs);
+  const entries: SweepEntry[] = [];
+
+  while (jobs.length > 0) {
+    for (const job of jobs) {
+      entries.push({ job, candidate: evaluateSweepJob(spec, job, ctx, cache) });
+    }
+    jobs = refinement.next(entries);
+  }
+
+  return {
+    ...rankSweep(spec, rawCandidates(entries), topN),
+    noDesign: noDesignJobs(entries),
+    refinement: refinement.levels(),
+  };
+}
@@ -0,0 +1,109 @@
+// src/optics/candidateCache.ts
+import type {
+  Candidate,
+  DesignParams,
+  InputSpec,
+  OpticDesignKind,
+} from "./types";
+import type { SampleSpec } from "./plan/types";
+
+import { toMm } from "./units";
+import { DEFAULT_FIELD_GRID } from "./designs/fields";
+import { CANDIDATE_CACHE_MAX_ENTRIES } from "./constants";
+
+// Raw candidates from the generators, before constraints or scores, looked up
+// by what they were built from. A stored null records a generator that had no
+// design for those inputs.
+export type CandidateCache = {
+  get(key: string): Candidate | null | undefined;
+  set(key: string, candidate: Candidate | null): void;
+  clear(): void;
+  readonly size: number;
+};
+
+// JSON with object keys sorted, so equal inputs give equal strings whatever
+// order their fields were written in.
+function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, v: unknown) =>
+    v && typeof v === "object" && !Array.isArray(v)
+      ? Object.fromEntries(
+          Object.entries(v).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)),
+        )
+      : v,
+  );
+}
+
+// The parts of a spec the generators build from, in mm and with defaults
+// filled in. Weights, sweep ranges, derived limits and the tube and
+// obstruction limits are left out: the sweep relaxes the last two before
+// generating and applies all of them afterwards.
+function geometryInputs(spec: InputSpec) {
+  const c = spec.constraints;
+  const sensor = spec.sensorFormat;
+  return {
+    aperture_mm: toMm(spec.aperture, spec.apertureUnits),
+    minBackFocus_mm: toMm(c.minBackFocus, c.backFocusUnits),
+    fieldRadius_mm: toMm(c.fullyIlluminatedFieldRadius, c.fieldUnits),
+    fieldGrid: [...(spec.fieldGrid ?? DEFAULT_FIELD_GRID)].sort(),
+    sensor_mm: sensor
+      ? [toMm(sensor.width, sensor.units), toMm(sensor.height, sensor.units)]
+      : null,
+    maksutovSecondary: spec.maksutovSecondary ?? "spot",
+    offAxisDiagonal: spec.offAxisDiagonal ?? true,
+    reflectivityPerMirror: spec.coatings.reflectivityPerMirror ?? null,
+    correctorTransmission: spec.coatings.correctorTransmission ?? null,
+  };
+}
+
+export function candidateKey(
+  spec: InputSpec,
+  kind: OpticDesignKind,
+  params: DesignParams,
+  sampleSpec: SampleSpec,
+): string {
+  return canonicalJson({
+    kind,
+    params: {
+      primaryFRatio: params.primaryFRatio,
+      systemFRatio: params.systemFRatio,
+      interceptFraction: params.interceptFraction ?? null,
+      secondaryConic: params.secondaryConic ?? null,
+      backFocus_mm: params.backFocus_mm ?? null,
+    },
+    spec: geometryInputs(spec),
+    sampleSpec,
+  });
+}
+
+// Least-recently-used eviction once `maxEntries` is reached; a Map keeps
+// insertion order, so a hit is moved to the back by re-inserting it.
+export function createCandidateCache(
+  maxEntries: number = CANDIDATE_CACHE_MAX_ENTRIES,
+): CandidateCache {
+  const entries = new Map<string, Candidate | null>();
+
+  return {
+    get(key) {
+      if (!entries.has(key)) return undefined;
+      const c = entries.get(key) ?? null;
+      entries.delete(key);
+      entries.set(key, c);
+      return c;
+    },
+    set(key, candidate) {
+      entries.delete(key);
+      entries.set(key, candidate);
+      while (entries.size > Math.max(0, maxEntries)) {
+        const oldest = entries.keys().next().value;
+        if (oldest === undefined) break;
+        entries.delete(oldest);
+      }
+    },
+    clear() {
+      entries.clear();
+    },
+    get size() {
+      return entries.size;
+    },
+  };
+}
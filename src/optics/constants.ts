@@ -2,11 +2,71 @@ export const TARGET_FRATIO_MISMATCH_COEFFICIENT = 0.35;
 export const DEFAULT_REFLECTIVITY_PER_MIRROR = 0.9;
 export const DEFAULT_CORRECTOR_TRANSMISSION = 0.9;
 
+export const DEFAULT_WAVELENGTH_NM = 550;
+
+// Diffraction images: pupil samples across the diameter, zero padding (at
+// least 2 so the MTF reaches its cutoff unaliased), sub-samples per pupil cell
+// edge for the obstruction and vane mask, and PSF crop size in pixels.
+export const DIFFRACTION_PUPIL_SAMPLES = 64;
+export const DIFFRACTION_PADDING = 4;
+export const DIFFRACTION_MASK_SUPERSAMPLE = 4;
+export const DIFFRACTION_PSF_SIZE = 64;
+
+// Sensor pixel pitch used for ensquared energy in the lab.
+export const DEFAULT_PIXEL_SIZE_UM = 3.76;
+
+// APS-C sensor offered when a rectangular sensor is first switched on.
+export const DEFAULT_SENSOR_WIDTH_MM = 23.5;
+export const DEFAULT_SENSOR_HEIGHT_MM = 15.6;
+
+// Parallel sweeps: jobs handed to a worker at a time, the most workers
+// started whatever the core count, and the shortest gap between the partial
+// rankings a run reports while it goes.
+export const SWEEP_CHUNK_SIZE = 4;
+export const SWEEP_MAX_WORKERS = 8;
+export const SWEEP_PROGRESS_INTERVAL_MS = 250;
+
+// Raw candidates kept for re-scoring; a few kB each.
+export const CANDIDATE_CACHE_MAX_ENTRIES = 20000;
+
+// Continuous optimizer: grid designs it starts from (best of each kind), its
+// iteration cap, and the simplex size, as a fraction of each swept range, at
+// which it stops.
+export const OPTIMIZER_MAX_SEEDS = 4;
+export const OPTIMIZER_MAX_ITERATIONS = 40;
+export const OPTIMIZER_TOLERANCE = 1e-3;
+
+// Adaptive sweeps: default number of step halvings below the grid, and the
+// score spread across a cell's corners above which it is split.
+export const ADAPTIVE_MAX_LEVELS = 3;
+export const ADAPTIVE_SCORE_TOLERANCE = 0.05;
+
+// Spider holding the secondary of on-axis obstructed reflectors.
+export const SPIDER_VANE_COUNT = 4;
+export const SPIDER_VANE_WIDTH_MM = 2;
+
 export const DEFAULT_BACKFOCUS_MARGIN_MM = 50;
 export const DEFAULT_TUBE_MARGIN_MM = 25;
 
 export const NEWTONIAN_INTERCEPT_FRACTION = 0.25;
 
+// Off-axis Newtonian: diagonal-to-focus distance as a fraction of the parent
+// focal length, and the gap kept between the incoming beam and anything
+// (diagonal or prime-focus field) beside it.
+export const OFF_AXIS_DIAGONAL_FRACTION = 0.15;
+export const OFF_AXIS_BEAM_CLEARANCE_MM = 10;
+
+// Schiefspiegler: pupil zone, as a fraction of the aperture radius,
+// of the ray fans that seed the coma and astigmatism solve at the field
+// centre, and the secondary decenter step, in the same units, used to
+// bracket it.
+export const SCHIEFSPIEGLER_FAN_FRACTION = 0.7;
+export const SCHIEFSPIEGLER_DECENTER_STEP = 0.1;
+
+// Maréchal criterion: RMS wavefront error, in waves, at which a design stops
+// being diffraction limited (Strehl about 0.8).
+export const MARECHAL_RMS_WAVES = 0.07;
+
 export const COMA_PROXY_COEFFICIENT = 1.0;
 export const CASSEGRAIN_ABERRATION_PENALTY = 1.2;
 export const SCT_ABERRATION_PENALTY = 1.4;
@@ -16,8 +76,28 @@ export const OBSTRUCTION_CONTRAST_COEFFICIENT = 0.15;
 
 export const CASSEGRAIN_BAFFLE_FACTOR = 1.06;
 export const RC_BAFFLE_FACTOR = 1.14;
+export const DALL_KIRKHAM_BAFFLE_FACTOR = 1.14;
+export const MAKSUTOV_BAFFLE_FACTOR = 1.12;
+export const GREGORIAN_BAFFLE_FACTOR = 1.1;
 export const SCT_BAFFLE_FACTOR = 1.22;
 
+export const SCT_CORRECTOR_GLASS = "N-BK7";
+export const SCT_CORRECTOR_MIN_THICKNESS_MM = 3;
+export const SCT_CORRECTOR_GAP_MM = 2;
+
+export const MAKSUTOV_CORRECTOR_GLASS = "N-BK7";
+export const MAKSUTOV_THICKNESS_FRACTION = 0.1;
+// Thickest meniscus, as a fraction of the aperture, a spot Maksutov may
+// solve to; slow primaries need an impractically thick one to stay
+// achromatic.
+export const MAKSUTOV_MAX_THICKNESS_FRACTION = 0.15;
+// The meniscus spreads the beam, so its rear face and the primary are cut
+// larger than the clear aperture.
+export const MAKSUTOV_BEAM_OVERSIZE = 1.15;
+
+// Still-air convection used for the lumped thermal time constant of correctors.
+export const CORRECTOR_CONVECTION_W_M2K = 6;
+
 export const CASS_COMA_COEFF = 0.6;
 export const CASS_ASTIG_COEFF = 0.35;
 export const CASS_FIELD_CURV_COEFF = 0.35;
@@ -8,9 +8,13 @@ import {
   DEFAULT_REFLECTIVITY_PER_MIRROR,
   DEFAULT_TUBE_MARGIN_MM,
   CASSEGRAIN_BAFFLE_FACTOR,
+  SPIDER_VANE_COUNT,
+  SPIDER_VANE_WIDTH_MM,
 } from "../constants";
-import { twoMirrorLayout } from "./twoMirror";
-import { adaptRaytraceToMetrics } from "../raytrace/adapt";
+import { secondaryBaffle, twoMirrorLayout } from "./twoMirror";
+import { twoMirrorConics } from "./twoMirrorSolve";
+import { adaptRaytraceFieldsToMetrics } from "../raytrace/adapt";
+import { fieldGrid, sensorApertureRadius } from "./fields";
 
 function clampNonNegativeFinite(v: number): number {
   return Number.isFinite(v) && v >= 0 ? v : 0;
@@ -30,9 +34,19 @@ export const cassegrain: DesignGenerator = (
   if (!Number.isFinite(Fs) || Fs <= 0) return null;
   if (Fs <= Fp) return null;
 
-  const layout = twoMirrorLayout(spec, D_mm, Fp, Fs);
+  const layout = twoMirrorLayout(
+    spec,
+    D_mm,
+    Fp,
+    Fs,
+    "cassegrain",
+    params.backFocus_mm,
+  );
   if (!layout) return null;
 
+  const conics = twoMirrorConics(layout, "classical", params.secondaryConic);
+  if (!conics) return null;
+
   const tubeLength_mm =
     layout.fPrimary_mm * (1 - 1 / layout.magnification) +
     layout.backFocus_mm +
@@ -100,15 +114,12 @@ export const cassegrain: DesignGenerator = (
     ),
   );
 
-  const fieldAngle_rad =
-    fieldRadius_mm > 0 ? fieldRadius_mm / layout.fSystem_mm : 0;
-
   const primary: SurfaceConic = {
     kind: "conic",
     id: "primary",
     z0_mm: 0,
     R_mm: -2 * layout.fPrimary_mm,
-    K: -1,
+    K: conics.primaryK,
     sagSign: -1,
     aperture: {
       kind: "circle",
@@ -122,8 +133,8 @@ export const cassegrain: DesignGenerator = (
     kind: "conic",
     id: "secondary",
     z0_mm: -layout.dPrimaryToSecondary_mm,
-    R_mm: 2 * (-layout.fPrimary_mm / Math.max(1e-6, layout.magnification - 1)),
-    K: -1,
+    R_mm: -layout.secondaryRadius_mm,
+    K: conics.secondaryK,
     sagSign: 1,
     aperture: { kind: "circle", radius_mm: 0.5 * secondaryDiameter_mm },
     material: { kind: "reflector", reflectivity },
@@ -134,7 +145,10 @@ export const cassegrain: DesignGenerator = (
     id: "sensor",
     p0_mm: { x: 0, y: 0, z: layout.backFocus_mm },
     nHat: { x: 0, y: 0, z: 1 },
-    aperture: { kind: "circle", radius_mm: Math.max(1, 2 * fieldRadius_mm) },
+    aperture: {
+      kind: "circle",
+      radius_mm: sensorApertureRadius(spec, fieldRadius_mm),
+    },
     material: { kind: "absorber" },
   };
 
@@ -144,9 +158,14 @@ export const cassegrain: DesignGenerator = (
     entrance: {
       zStart_mm: -5 * layout.fPrimary_mm,
       pupilRadius_mm: 0.5 * D_mm,
-      fieldAngles_rad: [0, fieldAngle_rad],
+      fieldPoints: fieldGrid(spec, layout.fSystem_mm),
+      spider: { count: SPIDER_VANE_COUNT, width_mm: SPIDER_VANE_WIDTH_MM },
     },
-    surfaces: [primary, secondary],
+    surfaces: [
+      secondaryBaffle(layout, obstructionDiameter_mm),
+      primary,
+      secondary,
+    ],
     sensor: { id: "sensor", plane: sensorPlane },
   };
 
@@ -154,9 +173,7 @@ export const cassegrain: DesignGenerator = (
   const iq = sim.imageQuality ?? [];
   if (iq.length === 0) return null;
 
-  const iqOnAxis = iq[0];
-  const iqEdge = iq[iq.length - 1];
-  const aberrations = adaptRaytraceToMetrics(iqEdge, Fs, iqOnAxis);
+  const aberrations = adaptRaytraceFieldsToMetrics(iq);
 
   return {
     id: plan.id,
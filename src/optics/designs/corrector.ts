@@ -0,0 +1,129 @@
+// src/optics/designs/corrector.ts
+import type { CorrectorMetrics } from "../types";
+import type { OpticalPlan } from "../plan/types";
+import { traceSingleRay } from "../raytrace/simulator";
+import { solveLinear } from "../raytrace/math";
+import { findGlass } from "../parts/glass";
+import { CORRECTOR_CONVECTION_W_M2K } from "../constants";
+
+// z where an on-axis meridional ray entering at height h_mm crosses the axis
+// after its last surface; NaN if the ray never reaches the sensor.
+export function axialCrossingZ(
+  plan: OpticalPlan,
+  h_mm: number,
+  wavelength_nm: number,
+  maxBounces = 8,
+): number {
+  const ray = traceSingleRay(
+    plan,
+    0,
+    { x: h_mm, y: 0 },
+    wavelength_nm,
+    maxBounces,
+  );
+  if (!ray || !ray.hitSensor || ray.segments.length === 0) return NaN;
+
+  const last = ray.segments[ray.segments.length - 1];
+  const dx = last.b.x - last.a.x;
+  if (!(Math.abs(dx) > 1e-15)) return NaN;
+
+  const t = -last.a.x / dx;
+  return last.a.z + t * (last.b.z - last.a.z);
+}
+
+export type NewtonResult = {
+  x: number[];
+  residual: number[];
+  converged: boolean;
+};
+
+function maxAbs(v: number[]): number {
+  return v.reduce((m, a) => Math.max(m, Math.abs(a)), 0);
+}
+
+// Damped Newton on a square system with a forward-difference Jacobian.
+export function solveNewton(
+  residual: (x: number[]) => number[],
+  x0: number[],
+  steps: number[],
+  opts?: { tolerance?: number; maxIterations?: number },
+): NewtonResult | null {
+  const tolerance = opts?.tolerance ?? 1e-4;
+  const maxIterations = opts?.maxIterations ?? 20;
+
+  let x = [...x0];
+  let f = residual(x);
+  if (!f.every(Number.isFinite)) return null;
+
+  for (let it = 0; it < maxIterations; it++) {
+    if (maxAbs(f) < tolerance) return { x, residual: f, converged: true };
+
+    const J: number[][] = f.map(() => []);
+    for (let j = 0; j < x.length; j++) {
+      const xj = [...x];
+      xj[j] += steps[j];
+      const fj = residual(xj);
+      if (!fj.every(Number.isFinite)) return null;
+      for (let i = 0; i < f.length; i++) J[i][j] = (fj[i] - f[i]) / steps[j];
+    }
+
+    const delta = solveLinear(
+      J,
+      f.map((v) => -v),
+    );
+    if (!delta) return null;
+
+    let lambda = 1;
+    let accepted = false;
+    for (let k = 0; k < 8; k++) {
+      const xn = x.map((v, j) => v + lambda * delta[j]);
+      const fn = residual(xn);
+      if (fn.every(Number.isFinite) && maxAbs(fn) < maxAbs(f)) {
+        x = xn;
+        f = fn;
+        accepted = true;
+        break;
+      }
+      lambda *= 0.5;
+    }
+    if (!accepted) break;
+  }
+
+  return { x, residual: f, converged: maxAbs(f) < tolerance };
+}
+
+// Weight and lumped-capacitance cooling time of a round corrector whose axial
+// thickness at radius r is thicknessAt(r).
+export function correctorMetrics(
+  glassId: string,
+  radius_mm: number,
+  thicknessAt: (r_mm: number) => number,
+): CorrectorMetrics {
+  const steps = 64;
+  const h = radius_mm / steps;
+  let volume_mm3 = 0;
+  for (let i = 0; i <= steps; i++) {
+    const r = i * h;
+    const w = i === 0 || i === steps ? 1 : i % 2 === 1 ? 4 : 2;
+    volume_mm3 += w * 2 * Math.PI * r * thicknessAt(r);
+  }
+  volume_mm3 *= h / 3;
+
+  const glass = findGlass(glassId);
+  const mass_kg = (volume_mm3 * 1e-3 * (glass?.density_g_cm3 ?? NaN)) / 1000;
+
+  const edge_mm = thicknessAt(radius_mm);
+  const area_m2 =
+    (2 * Math.PI * radius_mm * radius_mm + 2 * Math.PI * radius_mm * edge_mm) *
+    1e-6;
+  const heatCapacity_J_K =
+    mass_kg * 1000 * (glass?.specificHeat_J_gK ?? NaN);
+  const tau_s = heatCapacity_J_K / (CORRECTOR_CONVECTION_W_M2K * area_m2);
+
+  return {
+    glass: glassId,
+    thickness_mm: thicknessAt(0),
+    weight_kg: mass_kg,
+    thermalTimeConstant_min: tau_s / 60,
+  };
+}
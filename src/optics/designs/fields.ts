@@ -0,0 +1,144 @@
+// src/optics/designs/fields.ts
+import type { FieldGridKind, InputSpec } from "../types";
+import type { FieldPoint } from "../plan/types";
+import { toMm } from "../units";
+
+export const DEFAULT_FIELD_GRID: FieldGridKind[] = ["onAxis", "full"];
+
+const ZONE_FRACTION = 0.7;
+const WEIGHT_GRID_STEPS = 48;
+
+function clampNonNegativeFinite(v: number): number {
+  return Number.isFinite(v) && v >= 0 ? v : 0;
+}
+
+// Image-plane positions (mm) for the requested grid, before conversion to
+// angles.
+function gridPositions(
+  kinds: FieldGridKind[],
+  fieldRadius_mm: number,
+  halfWidth_mm: number,
+  halfHeight_mm: number,
+): { x: number; y: number }[] {
+  const out: { x: number; y: number }[] = [];
+  const push = (x: number, y: number) => {
+    if (!out.some((p) => Math.abs(p.x - x) < 1e-9 && Math.abs(p.y - y) < 1e-9))
+      out.push({ x, y });
+  };
+
+  if (kinds.includes("onAxis")) push(0, 0);
+  if (kinds.includes("zone")) push(ZONE_FRACTION * fieldRadius_mm, 0);
+  if (kinds.includes("full")) push(fieldRadius_mm, 0);
+  if (
+    kinds.includes("sensorCorners") &&
+    halfWidth_mm > 0 &&
+    halfHeight_mm > 0
+  ) {
+    for (const sy of [1, -1]) {
+      for (const sx of [1, -1]) push(sx * halfWidth_mm, sy * halfHeight_mm);
+    }
+  }
+
+  if (out.length === 0) out.push({ x: 0, y: 0 });
+  return out.sort((a, b) => Math.hypot(a.x, a.y) - Math.hypot(b.x, b.y));
+}
+
+// Area weights assuming image quality depends on field radius only: every
+// cell of the sensor rectangle (or of the field disc when there is no sensor)
+// goes to the points at the nearest radius, shared equally between them.
+function areaWeights(
+  points: { x: number; y: number }[],
+  fieldRadius_mm: number,
+  halfWidth_mm: number,
+  halfHeight_mm: number,
+): number[] {
+  const rect = halfWidth_mm > 0 && halfHeight_mm > 0;
+  const hw = rect ? halfWidth_mm : fieldRadius_mm;
+  const hh = rect ? halfHeight_mm : fieldRadius_mm;
+  if (!(hw > 0 && hh > 0)) return points.map(() => 1 / points.length);
+
+  const radii = points.map((p) => Math.hypot(p.x, p.y));
+  const weights = points.map(() => 0);
+  const n = WEIGHT_GRID_STEPS;
+
+  for (let iy = 0; iy < n; iy++) {
+    for (let ix = 0; ix < n; ix++) {
+      const x = ((ix + 0.5) / n) * 2 * hw - hw;
+      const y = ((iy + 0.5) / n) * 2 * hh - hh;
+      const r = Math.hypot(x, y);
+      if (!rect && r > fieldRadius_mm) continue;
+
+      let best = Infinity;
+      for (const ri of radii) best = Math.min(best, Math.abs(r - ri));
+      const nearest = radii
+        .map((ri, i) => (Math.abs(Math.abs(r - ri) - best) < 1e-9 ? i : -1))
+        .filter((i) => i >= 0);
+      for (const i of nearest) weights[i] += 1 / nearest.length;
+    }
+  }
+
+  const total = weights.reduce((a, w) => a + w, 0);
+  return total > 0
+    ? weights.map((w) => w / total)
+    : points.map(() => 1 / points.length);
+}
+
+// Sensor plane aperture: twice the larger of the fully illuminated field and
+// the sensor half-diagonal, so defocused edge spots still land on it.
+export function sensorApertureRadius(
+  spec: InputSpec,
+  fieldRadius_mm: number,
+): number {
+  const sensor = spec.sensorFormat;
+  const halfDiagonal_mm = sensor
+    ? clampNonNegativeFinite(
+        0.5 *
+          Math.hypot(
+            toMm(sensor.width, sensor.units),
+            toMm(sensor.height, sensor.units),
+          ),
+      )
+    : 0;
+  return Math.max(1, 2 * fieldRadius_mm, 2 * halfDiagonal_mm);
+}
+
+// Field points for a generator with the given focal length, ordered from the
+// axis outward so the first is the innermost and the last the edge.
+export function fieldGrid(
+  spec: InputSpec,
+  focalLength_mm: number,
+): FieldPoint[] {
+  const fieldRadius_mm = clampNonNegativeFinite(
+    toMm(
+      spec.constraints.fullyIlluminatedFieldRadius,
+      spec.constraints.fieldUnits,
+    ),
+  );
+
+  const sensor = spec.sensorFormat;
+  const halfWidth_mm = sensor
+    ? clampNonNegativeFinite(0.5 * toMm(sensor.width, sensor.units))
+    : 0;
+  const halfHeight_mm = sensor
+    ? clampNonNegativeFinite(0.5 * toMm(sensor.height, sensor.units))
+    : 0;
+
+  const positions = gridPositions(
+    spec.fieldGrid ?? DEFAULT_FIELD_GRID,
+    fieldRadius_mm,
+    halfWidth_mm,
+    halfHeight_mm,
+  );
+  const weights = areaWeights(
+    positions,
+    fieldRadius_mm,
+    halfWidth_mm,
+    halfHeight_mm,
+  );
+
+  return positions.map((p, i) => ({
+    x_rad: focalLength_mm > 0 ? p.x / focalLength_mm : 0,
+    y_rad: focalLength_mm > 0 ? p.y / focalLength_mm : 0,
+    weight: weights[i],
+  }));
+}
@@ -0,0 +1,570 @@
+// src/optics/designs/maksutov.ts
+import type { Candidate } from "../types";
+import type { DesignGenerator } from "./types";
+import type {
+  OpticalPlan,
+  Surface,
+  SurfaceConic,
+  SurfacePlane,
+} from "../plan/types";
+
+import { toMm, areaCircle } from "../units";
+import {
+  DEFAULT_REFLECTIVITY_PER_MIRROR,
+  DEFAULT_CORRECTOR_TRANSMISSION,
+  DEFAULT_TUBE_MARGIN_MM,
+  DEFAULT_WAVELENGTH_NM,
+  MAKSUTOV_BAFFLE_FACTOR,
+  MAKSUTOV_CORRECTOR_GLASS,
+  MAKSUTOV_BEAM_OVERSIZE,
+  MAKSUTOV_THICKNESS_FRACTION,
+  MAKSUTOV_MAX_THICKNESS_FRACTION,
+} from "../constants";
+import { secondaryBaffle, twoMirrorLayout } from "./twoMirror";
+import { axialCrossingZ, correctorMetrics, solveNewton } from "./corrector";
+import { sagConicUnsigned } from "../raytrace/surface";
+import { traceSingleRay } from "../raytrace/simulator";
+import { findGlass, glassIndex } from "../parts/glass";
+import { adaptRaytraceFieldsToMetrics } from "../raytrace/adapt";
+import { fieldGrid, sensorApertureRadius } from "./fields";
+
+function clampNonNegativeFinite(v: number): number {
+  return Number.isFinite(v) && v >= 0 ? v : 0;
+}
+
+function sphereSag(r: number, R: number): number {
+  return sagConicUnsigned(r, R, 0);
+}
+
+type Meniscus = {
+  stop: SurfacePlane;
+  front: SurfaceConic;
+  rear: SurfaceConic;
+};
+
+// Rear radius from the thick-lens achromat condition R2 - R1 = t(n² - 1)/n².
+function achromatRearRadius(R1_mm: number, t_mm: number, n: number): number {
+  return R1_mm - (t_mm * (n * n - 1)) / (n * n);
+}
+
+// Meniscus concave toward the sky with its rear vertex at zRear_mm.
+// An absorbing ring just ahead of the front face is the entrance stop, so
+// rays outside the clear aperture never reach the oversized faces behind it.
+function meniscus(
+  R1_mm: number,
+  R2_mm: number,
+  t_mm: number,
+  zRear_mm: number,
+  r0: number,
+  transmission: number,
+  spotRadius_mm?: number,
+): Meniscus {
+  const zFront_mm = zRear_mm - t_mm;
+
+  return {
+    stop: {
+      kind: "plane",
+      id: "corrector-stop",
+      p0_mm: {
+        x: 0,
+        y: 0,
+        z:
+          zFront_mm -
+          Math.abs(sphereSag(MAKSUTOV_BEAM_OVERSIZE * r0, R1_mm)) -
+          1,
+      },
+      nHat: { x: 0, y: 0, z: -1 },
+      aperture: {
+        kind: "circle",
+        radius_mm: 2 * MAKSUTOV_BEAM_OVERSIZE * r0,
+        innerRadius_mm: r0,
+      },
+      material: { kind: "absorber" },
+    },
+    front: {
+      kind: "conic",
+      id: "corrector",
+      z0_mm: zFront_mm,
+      R_mm: R1_mm,
+      K: 0,
+      sagSign: -1,
+      aperture: { kind: "circle", radius_mm: MAKSUTOV_BEAM_OVERSIZE * r0 },
+      material: {
+        kind: "transmitter",
+        transmission,
+        glass: MAKSUTOV_CORRECTOR_GLASS,
+      },
+    },
+    rear: {
+      kind: "conic",
+      id: "corrector-back",
+      z0_mm: zRear_mm,
+      R_mm: R2_mm,
+      K: 0,
+      sagSign: -1,
+      aperture: {
+        kind: "circle",
+        radius_mm: MAKSUTOV_BEAM_OVERSIZE * r0,
+        innerRadius_mm: spotRadius_mm,
+      },
+      material: { kind: "transmitter", refractiveIndex: 1 },
+    },
+  };
+}
+
+// Focal length from the sine condition on a single on-axis ray.
+function effectiveFocalLength(plan: OpticalPlan, h_mm: number): number {
+  const ray = traceSingleRay(
+    plan,
+    0,
+    { x: h_mm, y: 0 },
+    DEFAULT_WAVELENGTH_NM,
+    8,
+  );
+  if (!ray || !ray.hitSensor) return NaN;
+
+  const last = ray.segments[ray.segments.length - 1];
+  const dx = last.b.x - last.a.x;
+  const dz = last.b.z - last.a.z;
+  const sinU = Math.abs(dx) / Math.hypot(dx, dz);
+  return sinU > 0 ? h_mm / sinU : NaN;
+}
+
+export const maksutov: DesignGenerator = (
+  spec,
+  params,
+  ctx,
+): Candidate | null => {
+  const D_mm = toMm(spec.aperture, spec.apertureUnits);
+  const Fp = params.primaryFRatio;
+  const Fs = params.systemFRatio;
+
+  if (!(D_mm > 0 && Fp > 0 && Fs > Fp)) return null;
+
+  const glass = findGlass(MAKSUTOV_CORRECTOR_GLASS);
+  if (!glass) return null;
+  const n = glassIndex(glass, DEFAULT_WAVELENGTH_NM);
+
+  const secondaryKind = spec.maksutovSecondary ?? "spot";
+
+  const layout = twoMirrorLayout(
+    spec,
+    D_mm,
+    Fp,
+    Fs,
+    "cassegrain",
+    params.backFocus_mm,
+  );
+  if (!layout) return null;
+
+  const r0 = 0.5 * D_mm;
+  const fPrimary_mm = layout.fPrimary_mm;
+  const fSystem_mm = layout.fSystem_mm;
+
+  const fieldRadius_mm = clampNonNegativeFinite(
+    toMm(
+      spec.constraints.fullyIlluminatedFieldRadius,
+      spec.constraints.fieldUnits,
+    ),
+  );
+
+  const reflectivity =
+    spec.coatings.reflectivityPerMirror ?? DEFAULT_REFLECTIVITY_PER_MIRROR;
+  const correctorTransmission =
+    spec.coatings.correctorTransmission ?? DEFAULT_CORRECTOR_TRANSMISSION;
+
+  const primaryMirror = (innerRadius_mm: number): SurfaceConic => ({
+    kind: "conic",
+    id: "primary",
+    z0_mm: 0,
+    R_mm: -2 * fPrimary_mm,
+    K: 0,
+    sagSign: -1,
+    aperture: {
+      kind: "circle",
+      radius_mm: MAKSUTOV_BEAM_OVERSIZE * r0,
+      innerRadius_mm,
+    },
+    material: { kind: "reflector", reflectivity },
+  });
+
+  const sensorAt = (z_mm: number, radius_mm: number): SurfacePlane => ({
+    kind: "plane",
+    id: "sensor",
+    p0_mm: { x: 0, y: 0, z: z_mm },
+    nHat: { x: 0, y: 0, z: 1 },
+    aperture: { kind: "circle", radius_mm },
+    material: { kind: "absorber" },
+  });
+
+  const makePlan = (surfaces: Surface[], sensor: SurfacePlane): OpticalPlan => ({
+    id: `mak-${secondaryKind}-Fp${Fp.toFixed(2)}-Fs${Fs.toFixed(2)}`,
+    label: "Maksutov-Cassegrain",
+    entrance: {
+      zStart_mm: -5 * fPrimary_mm,
+      pupilRadius_mm: r0,
+      fieldPoints: fieldGrid(spec, fSystem_mm),
+    },
+    surfaces,
+    sensor: { id: "sensor", plane: sensor },
+  });
+
+  const hEdge_mm = 0.99 * r0;
+
+  let plan: OpticalPlan;
+  let thickness_mm: number;
+  let backFocus_mm: number;
+  let obstructionDiameter_mm: number;
+  let dPrimaryToCorrector_mm: number;
+
+  if (secondaryKind === "separate") {
+    // Own spherical secondary on the two-mirror layout: the meniscus front
+    // radius nulls spherical aberration and the secondary radius holds focus.
+    // The meniscus spreads the beam, so the secondary is solved oversized
+    // and then sized from the traced marginal ray.
+    thickness_mm = MAKSUTOV_THICKNESS_FRACTION * D_mm;
+    backFocus_mm = layout.backFocus_mm;
+
+    const secondaryEdgeSag_mm = sphereSag(
+      0.5 * layout.secondaryDiameter_mm,
+      layout.secondaryRadius_mm,
+    );
+    const zRear_mm = -layout.dPrimaryToSecondary_mm - secondaryEdgeSag_mm - 2;
+    dPrimaryToCorrector_mm = -zRear_mm;
+
+    const build = (
+      R1: number,
+      R2sec: number,
+      secondary_mm: number,
+      obstruction_mm: number,
+      sensor: SurfacePlane,
+    ) => {
+      const m = meniscus(
+        R1,
+        achromatRearRadius(R1, thickness_mm, n),
+        thickness_mm,
+        zRear_mm,
+        r0,
+        correctorTransmission,
+      );
+      const secondary: SurfaceConic = {
+        kind: "conic",
+        id: "secondary",
+        z0_mm: -layout.dPrimaryToSecondary_mm,
+        R_mm: R2sec,
+        K: 0,
+        sagSign: 1,
+        aperture: { kind: "circle", radius_mm: secondary_mm },
+        material: { kind: "reflector", reflectivity },
+      };
+      return makePlan(
+        [
+          m.front,
+          m.rear,
+          m.stop,
+          secondaryBaffle(layout, 2 * obstruction_mm),
+          primaryMirror(obstruction_mm),
+          secondary,
+        ],
+        sensor,
+      );
+    };
+
+    const solveSecondary_mm =
+      0.5 * MAKSUTOV_BEAM_OVERSIZE * layout.secondaryDiameter_mm;
+    const solveObstruction_mm = 0.5 * layout.secondaryDiameter_mm;
+    const solveSensor = sensorAt(backFocus_mm, D_mm);
+    const hInner_mm = Math.min(
+      0.9 * r0,
+      solveObstruction_mm * MAKSUTOV_BAFFLE_FACTOR + 0.05 * r0,
+    );
+    const hMid_mm = Math.sqrt(
+      0.5 * (hInner_mm * hInner_mm + hEdge_mm * hEdge_mm),
+    );
+
+    const solved = solveNewton(
+      ([R1, R2sec]) => {
+        const trial = build(
+          R1,
+          R2sec,
+          solveSecondary_mm,
+          solveObstruction_mm,
+          solveSensor,
+        );
+        const zInner = axialCrossingZ(trial, hInner_mm, DEFAULT_WAVELENGTH_NM);
+        const zEdge = axialCrossingZ(trial, hEdge_mm, DEFAULT_WAVELENGTH_NM);
+        const zMid = axialCrossingZ(trial, hMid_mm, DEFAULT_WAVELENGTH_NM);
+        return [zEdge - zInner, zMid - backFocus_mm];
+      },
+      [-0.5 * dPrimaryToCorrector_mm, -layout.secondaryRadius_mm],
+      [1e-3, 1e-4 * layout.secondaryRadius_mm],
+    );
+    if (!solved || !solved.converged) return null;
+
+    const [R1, R2sec] = solved.x;
+    if (!(R1 < 0)) return null;
+    const probe = build(
+      R1,
+      R2sec,
+      solveSecondary_mm,
+      solveObstruction_mm,
+      solveSensor,
+    );
+    const marginal = traceSingleRay(
+      probe,
+      0,
+      { x: hEdge_mm, y: 0 },
+      DEFAULT_WAVELENGTH_NM,
+      8,
+    );
+    const secondaryHit = marginal?.segments.find(
+      (s) => s.surfaceId === "secondary",
+    );
+    if (!secondaryHit) return null;
+
+    const chiefHeight_mm =
+      (fieldRadius_mm * (backFocus_mm + layout.dPrimaryToSecondary_mm)) /
+      fSystem_mm;
+    const secondary_mm =
+      (Math.abs(secondaryHit.b.x) * r0) / hEdge_mm + chiefHeight_mm;
+    obstructionDiameter_mm = 2 * secondary_mm * MAKSUTOV_BAFFLE_FACTOR;
+
+    plan = build(
+      R1,
+      R2sec,
+      secondary_mm,
+      0.5 * obstructionDiameter_mm,
+      sensorAt(backFocus_mm, sensorApertureRadius(spec, fieldRadius_mm)),
+    );
+  } else {
+    // Aluminized spot on the meniscus rear face, its rear radius held to
+    // the achromat condition: the front radius, thickness and spacing
+    // together null spherical aberration, hit the target focal length and
+    // land focus at the required backfocus.
+    backFocus_mm = layout.backFocus_mm;
+
+    const solveSpot_mm =
+      0.5 * MAKSUTOV_BEAM_OVERSIZE * layout.secondaryDiameter_mm;
+    const solveObstruction_mm = solveSpot_mm + 0.02 * r0;
+    const hInner_mm = Math.min(0.9 * r0, solveObstruction_mm + 0.05 * r0);
+    const hMid_mm = Math.sqrt(
+      0.5 * (hInner_mm * hInner_mm + hEdge_mm * hEdge_mm),
+    );
+
+    const build = (
+      R1: number,
+      R2: number,
+      t: number,
+      L: number,
+      spot_mm: number,
+      obstruction_mm: number,
+      sensor: SurfacePlane,
+    ) => {
+      const m = meniscus(R1, R2, t, -L, r0, correctorTransmission, spot_mm);
+      const spot: SurfaceConic = {
+        ...m.rear,
+        id: "secondary",
+        sagSign: 1,
+        aperture: { kind: "circle", radius_mm: spot_mm },
+        material: { kind: "reflector", reflectivity },
+      };
+      const baffle: SurfacePlane = {
+        kind: "plane",
+        id: "secondary-baffle",
+        p0_mm: {
+          x: 0,
+          y: 0,
+          z: -L + sphereSag(obstruction_mm, R2) - 0.25 * t,
+        },
+        nHat: { x: 0, y: 0, z: -1 },
+        aperture: { kind: "circle", radius_mm: obstruction_mm },
+        material: { kind: "absorber" },
+      };
+      return makePlan(
+        [m.front, m.rear, m.stop, baffle, primaryMirror(obstruction_mm), spot],
+        sensor,
+      );
+    };
+
+    const solveSensor = sensorAt(fPrimary_mm, 10 * D_mm);
+    const L0 = layout.dPrimaryToSecondary_mm;
+    const p0 = fPrimary_mm - L0;
+    const R0 = -((2 * layout.magnification * p0) / (layout.magnification - 1));
+
+    const t0 = MAKSUTOV_THICKNESS_FRACTION * D_mm;
+
+    const solved = solveNewton(
+      ([R1, t, L]) => {
+        const trial = build(
+          R1,
+          achromatRearRadius(R1, t, n),
+          t,
+          L,
+          solveSpot_mm,
+          solveObstruction_mm,
+          solveSensor,
+        );
+        const zInner = axialCrossingZ(trial, hInner_mm, DEFAULT_WAVELENGTH_NM);
+        const zEdge = axialCrossingZ(trial, hEdge_mm, DEFAULT_WAVELENGTH_NM);
+        const zMid = axialCrossingZ(trial, hMid_mm, DEFAULT_WAVELENGTH_NM);
+        const f = effectiveFocalLength(trial, hMid_mm);
+        return [zEdge - zInner, zMid - backFocus_mm, f - fSystem_mm];
+      },
+      [R0, t0, L0],
+      [1e-3, 1e-4, 1e-3],
+    );
+    if (!solved || !solved.converged) return null;
+
+    const [R1, t, L] = solved.x;
+    if (!(t > 0 && L > t)) return null;
+    if (t > MAKSUTOV_MAX_THICKNESS_FRACTION * D_mm) return null;
+    const R2 = achromatRearRadius(R1, t, n);
+
+    // Size the spot from the traced marginal ray plus the field chief ray.
+    const probe = build(
+      R1,
+      R2,
+      t,
+      L,
+      solveSpot_mm,
+      solveObstruction_mm,
+      solveSensor,
+    );
+    const marginal = traceSingleRay(
+      probe,
+      0,
+      { x: hEdge_mm, y: 0 },
+      DEFAULT_WAVELENGTH_NM,
+      8,
+    );
+    const spotHit = marginal?.segments.find((s) => s.surfaceId === "secondary");
+    if (!spotHit) return null;
+
+    const chiefHeight_mm = (fieldRadius_mm * (backFocus_mm + L)) / fSystem_mm;
+    const spot_mm = (Math.abs(spotHit.b.x) * r0) / hEdge_mm + chiefHeight_mm;
+    obstructionDiameter_mm = 2 * spot_mm * MAKSUTOV_BAFFLE_FACTOR;
+
+    thickness_mm = t;
+    dPrimaryToCorrector_mm = L;
+    plan = build(
+      R1,
+      R2,
+      t,
+      L,
+      spot_mm,
+      0.5 * obstructionDiameter_mm,
+      sensorAt(backFocus_mm, sensorApertureRadius(spec, fieldRadius_mm)),
+    );
+  }
+
+  const front = plan.surfaces[0] as SurfaceConic;
+  const rear = plan.surfaces[1] as SurfaceConic;
+  const corrector = correctorMetrics(MAKSUTOV_CORRECTOR_GLASS, r0, (r) => {
+    return (
+      thickness_mm + sphereSag(r, rear.R_mm) - sphereSag(r, front.R_mm)
+    );
+  });
+
+  const tubeLength_mm =
+    dPrimaryToCorrector_mm +
+    thickness_mm +
+    backFocus_mm +
+    DEFAULT_TUBE_MARGIN_MM;
+
+  const maxTube_mm = toMm(
+    spec.constraints.maxTubeLength,
+    spec.constraints.tubeLengthUnits,
+  );
+
+  const obstructionRatio = obstructionDiameter_mm / D_mm;
+
+  const reasons: string[] = [];
+
+  if (Number.isFinite(maxTube_mm) && tubeLength_mm > maxTube_mm) {
+    reasons.push(
+      `Tube length ${tubeLength_mm.toFixed(0)}mm exceeds max ${maxTube_mm.toFixed(0)}mm`,
+    );
+  }
+
+  if (
+    Number.isFinite(spec.constraints.maxObstructionRatio) &&
+    obstructionRatio > spec.constraints.maxObstructionRatio
+  ) {
+    reasons.push(
+      `Obstruction ${obstructionRatio.toFixed(2)} exceeds max ${spec.constraints.maxObstructionRatio.toFixed(2)}`,
+    );
+  }
+
+  const minBackFocus_mm = clampNonNegativeFinite(
+    toMm(spec.constraints.minBackFocus, spec.constraints.backFocusUnits),
+  );
+
+  if (minBackFocus_mm > 0 && backFocus_mm < minBackFocus_mm) {
+    reasons.push(
+      `Backfocus requires >= ${minBackFocus_mm.toFixed(0)}mm (current ${backFocus_mm.toFixed(0)}mm)`,
+    );
+  }
+
+  const pass = reasons.length === 0;
+
+  const primaryArea_mm2 = areaCircle(D_mm);
+  const obstructionArea_mm2 = areaCircle(obstructionDiameter_mm);
+
+  const mirrorCount = 2;
+  const transmissionFactor =
+    Math.pow(reflectivity, mirrorCount) * correctorTransmission;
+
+  const effectiveArea_mm2 =
+    (primaryArea_mm2 - obstructionArea_mm2) * transmissionFactor;
+
+  const sim = ctx.simulator.simulate(plan, ctx.scoringSampleSpec);
+  const iq = sim.imageQuality ?? [];
+  if (iq.length === 0) return null;
+
+  const aberrations = adaptRaytraceFieldsToMetrics(iq);
+
+  return {
+    id: plan.id,
+    kind: "maksutov",
+    plan,
+
+    inputs: {
+      aperture_mm: D_mm,
+      primaryFRatio: Fp,
+      systemFRatio: Fs,
+      primaryFocalLength_mm: fPrimary_mm,
+      systemFocalLength_mm: fSystem_mm,
+    },
+
+    geometry: {
+      tubeLength_mm,
+      backFocus_mm,
+      secondaryDiameter_mm: obstructionDiameter_mm,
+      obstructionRatio,
+    },
+
+    throughput: {
+      primaryArea_mm2,
+      effectiveArea_mm2,
+      usableLightEfficiency: effectiveArea_mm2 / primaryArea_mm2,
+      mirrorCount,
+      transmissionFactor,
+    },
+
+    aberrations,
+
+    corrector,
+
+    constraints: { pass, reasons },
+
+    score: {
+      total: 0,
+      terms: { usableLight: 0, aberration: 0, obstruction: 0 },
+    },
+
+    audit: {
+      scoringSampleSpec: ctx.scoringSampleSpec,
+      imageQuality: iq,
+    },
+  };
+};
@@ -8,9 +8,12 @@ import {
   DEFAULT_REFLECTIVITY_PER_MIRROR,
   NEWTONIAN_INTERCEPT_FRACTION,
   DEFAULT_TUBE_MARGIN_MM,
+  SPIDER_VANE_COUNT,
+  SPIDER_VANE_WIDTH_MM,
 } from "../constants";
 
-import { adaptRaytraceToMetrics } from "../raytrace/adapt";
+import { adaptRaytraceFieldsToMetrics } from "../raytrace/adapt";
+import { fieldGrid, sensorApertureRadius } from "./fields";
 
 function clampNonNegativeFinite(v: number): number {
   return Number.isFinite(v) && v >= 0 ? v : 0;
@@ -23,11 +26,14 @@ export const newtonian: DesignGenerator = (
 ): Candidate | null => {
   const D_mm = toMm(spec.aperture, spec.apertureUnits);
   const Fp = params.primaryFRatio;
+  const interceptFraction =
+    params.interceptFraction ?? NEWTONIAN_INTERCEPT_FRACTION;
 
   if (!(D_mm > 0 && Fp > 0)) return null;
+  if (!(interceptFraction > 0 && interceptFraction < 1)) return null;
 
   const fPrimary_mm = Fp * D_mm;
-  const intercept_mm = NEWTONIAN_INTERCEPT_FRACTION * fPrimary_mm;
+  const intercept_mm = interceptFraction * fPrimary_mm;
   const backFocus_mm = Math.max(0, fPrimary_mm - intercept_mm);
   const tubeLength_mm = fPrimary_mm + DEFAULT_TUBE_MARGIN_MM;
 
@@ -74,19 +80,21 @@ export const newtonian: DesignGenerator = (
     id: "sensor",
     p0_mm: { x: backFocus_mm, y: 0, z: -intercept_mm },
     nHat: { x: 1, y: 0, z: 0 },
-    aperture: { kind: "circle", radius_mm: Math.max(1, 2 * fieldRadius_mm) },
+    aperture: {
+      kind: "circle",
+      radius_mm: sensorApertureRadius(spec, fieldRadius_mm),
+    },
     material: { kind: "absorber" },
   };
 
-  const fieldAngle_rad = fieldRadius_mm > 0 ? fieldRadius_mm / fPrimary_mm : 0;
-
   const plan: OpticalPlan = {
     id: `newtonian-F${Fp.toFixed(2)}`,
     label: "Newtonian",
     entrance: {
       zStart_mm: -5 * fPrimary_mm,
       pupilRadius_mm: 0.5 * D_mm,
-      fieldAngles_rad: [0, fieldAngle_rad],
+      fieldPoints: fieldGrid(spec, fPrimary_mm),
+      spider: { count: SPIDER_VANE_COUNT, width_mm: SPIDER_VANE_WIDTH_MM },
     },
     surfaces: [primary, secondary],
     sensor: { id: "sensor", plane: imagePlane },
@@ -96,9 +104,7 @@ export const newtonian: DesignGenerator = (
   const iq = sim.imageQuality ?? [];
   if (iq.length === 0) return null;
 
-  const iqOnAxis = iq[0];
-  const iqEdge = iq[iq.length - 1];
-  const aberrations = adaptRaytraceToMetrics(iqEdge, Fp, iqOnAxis);
+  const aberrations = adaptRaytraceFieldsToMetrics(iq);
 
   const primaryArea_mm2 = areaCircle(D_mm);
   const obstructionArea_mm2 = areaCircle(secondaryDiameter_mm);
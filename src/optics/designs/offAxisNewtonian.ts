@@ -0,0 +1,222 @@
+// src/optics/designs/offAxisNewtonian.ts
+import type { Candidate } from "../types";
+import type { DesignGenerator } from "./types";
+import type {
+  OpticalPlan,
+  Surface,
+  SurfaceConic,
+  SurfacePlane,
+  Vec3,
+} from "../plan/types";
+
+import { toMm, areaCircle } from "../units";
+import {
+  DEFAULT_REFLECTIVITY_PER_MIRROR,
+  DEFAULT_TUBE_MARGIN_MM,
+  OFF_AXIS_BEAM_CLEARANCE_MM,
+  OFF_AXIS_DIAGONAL_FRACTION,
+} from "../constants";
+import { add, mul, normalize, sub } from "../raytrace/math";
+import { adaptRaytraceFieldsToMetrics } from "../raytrace/adapt";
+import { fieldGrid, sensorApertureRadius } from "./fields";
+
+function clampNonNegativeFinite(v: number): number {
+  return Number.isFinite(v) && v >= 0 ? v : 0;
+}
+
+// Off-axis paraboloid segment centred on the entrance axis. The parent
+// vertex sits h to the side, so the focus and anything near it lie outside
+// the incoming beam and nothing obstructs the aperture.
+export const offAxisNewtonian: DesignGenerator = (
+  spec,
+  params,
+  ctx,
+): Candidate | null => {
+  const D_mm = toMm(spec.aperture, spec.apertureUnits);
+  const Fp = params.primaryFRatio;
+
+  if (!(D_mm > 0 && Fp > 0)) return null;
+
+  const useDiagonal = spec.offAxisDiagonal ?? true;
+
+  const a = 0.5 * D_mm;
+  const fParent_mm = Fp * D_mm;
+
+  const fieldRadius_mm = clampNonNegativeFinite(
+    toMm(
+      spec.constraints.fullyIlluminatedFieldRadius,
+      spec.constraints.fieldUnits,
+    ),
+  );
+  const sensorRadius_mm = sensorApertureRadius(spec, fieldRadius_mm);
+
+  // Diagonal s ahead of focus; its inner edge must clear the beam edge at -a.
+  const s_mm = OFF_AXIS_DIAGONAL_FRACTION * fParent_mm;
+  const diagonalDiameter_mm =
+    (D_mm * s_mm) / fParent_mm + 2 * fieldRadius_mm * (1 - s_mm / fParent_mm);
+
+  const h_mm = useDiagonal
+    ? (a + 0.5 * diagonalDiameter_mm + OFF_AXIS_BEAM_CLEARANCE_MM) /
+      (1 - s_mm / fParent_mm)
+    : a + sensorRadius_mm + OFF_AXIS_BEAM_CLEARANCE_MM;
+  if (!(h_mm > a && h_mm < 2 * fParent_mm)) return null;
+
+  const focus: Vec3 = { x: -h_mm, y: 0, z: -fParent_mm };
+  const segmentCentre: Vec3 = {
+    x: 0,
+    y: 0,
+    z: -(h_mm * h_mm) / (4 * fParent_mm),
+  };
+  const toSegment = sub(segmentCentre, focus);
+  const fEffective_mm = fParent_mm + (h_mm * h_mm) / (4 * fParent_mm);
+  const u = normalize(toSegment);
+
+  const reflectivity =
+    spec.coatings.reflectivityPerMirror ?? DEFAULT_REFLECTIVITY_PER_MIRROR;
+
+  const primary: SurfaceConic = {
+    kind: "conic",
+    id: "primary",
+    z0_mm: 0,
+    R_mm: -2 * fParent_mm,
+    K: -1,
+    sagSign: -1,
+    frame: { decenter_mm: { x: -h_mm, y: 0, z: 0 } },
+    aperture: { kind: "circle", radius_mm: a, offset_mm: { x: h_mm, y: 0 } },
+    material: { kind: "reflector", reflectivity },
+  };
+
+  const surfaces: Surface[] = [primary];
+  let imagePlane: SurfacePlane;
+  let backFocus_mm: number;
+
+  if (useDiagonal) {
+    // Fold 90° away from the incoming beam.
+    const out: Vec3 = { x: -u.z, y: 0, z: u.x };
+    const centre = add(focus, mul(u, s_mm));
+
+    surfaces.push({
+      kind: "plane",
+      id: "secondary",
+      p0_mm: centre,
+      nHat: normalize(add(out, u)),
+      aperture: { kind: "circle", radius_mm: 0.5 * diagonalDiameter_mm },
+      material: { kind: "reflector", reflectivity },
+    });
+
+    imagePlane = {
+      kind: "plane",
+      id: "sensor",
+      p0_mm: add(centre, mul(out, s_mm)),
+      nHat: out,
+      aperture: { kind: "circle", radius_mm: sensorRadius_mm },
+      material: { kind: "absorber" },
+    };
+    backFocus_mm = s_mm;
+  } else {
+    imagePlane = {
+      kind: "plane",
+      id: "sensor",
+      p0_mm: focus,
+      nHat: mul(u, -1),
+      aperture: { kind: "circle", radius_mm: sensorRadius_mm },
+      material: { kind: "absorber" },
+    };
+    backFocus_mm = fEffective_mm;
+  }
+
+  const tubeLength_mm = fParent_mm + DEFAULT_TUBE_MARGIN_MM;
+
+  const plan: OpticalPlan = {
+    id: `oan-${useDiagonal ? "diag" : "prime"}-F${Fp.toFixed(2)}`,
+    label: "Off-axis Newtonian",
+    entrance: {
+      zStart_mm: -5 * fParent_mm,
+      pupilRadius_mm: a,
+      fieldPoints: fieldGrid(spec, fEffective_mm),
+    },
+    surfaces,
+    sensor: { id: "sensor", plane: imagePlane },
+  };
+
+  const Fs = fEffective_mm / D_mm;
+
+  const sim = ctx.simulator.simulate(plan, ctx.scoringSampleSpec);
+  const iq = sim.imageQuality ?? [];
+  if (iq.length === 0) return null;
+
+  const aberrations = adaptRaytraceFieldsToMetrics(iq);
+
+  const primaryArea_mm2 = areaCircle(D_mm);
+
+  const mirrorCount = useDiagonal ? 2 : 1;
+  const transmissionFactor = Math.pow(reflectivity, mirrorCount);
+  const effectiveArea_mm2 = primaryArea_mm2 * transmissionFactor;
+
+  const reasons: string[] = [];
+
+  const maxTube_mm = toMm(
+    spec.constraints.maxTubeLength,
+    spec.constraints.tubeLengthUnits,
+  );
+
+  if (Number.isFinite(maxTube_mm) && tubeLength_mm > maxTube_mm) {
+    reasons.push(`Tube length ${tubeLength_mm.toFixed(0)}mm exceeds max`);
+  }
+
+  const pass = reasons.length === 0;
+
+  // Depth of the segment below the chord joining its near and far rims.
+  const slope = h_mm / (2 * fParent_mm);
+  const subApertureSag_mm = (a * a) / (4 * fParent_mm) / Math.hypot(1, slope);
+
+  return {
+    id: plan.id,
+    kind: "offAxisNewtonian",
+    plan,
+
+    inputs: {
+      aperture_mm: D_mm,
+      primaryFRatio: Fp,
+      systemFRatio: Fs,
+      primaryFocalLength_mm: fParent_mm,
+      systemFocalLength_mm: fEffective_mm,
+    },
+
+    geometry: {
+      tubeLength_mm,
+      backFocus_mm,
+      secondaryDiameter_mm: 0,
+      obstructionRatio: 0,
+    },
+
+    throughput: {
+      primaryArea_mm2,
+      effectiveArea_mm2,
+      usableLightEfficiency: effectiveArea_mm2 / primaryArea_mm2,
+      mirrorCount,
+      transmissionFactor,
+    },
+
+    aberrations,
+
+    offAxis: {
+      parentFocalLength_mm: fParent_mm,
+      parentDiameter_mm: 2 * (h_mm + a),
+      offAxisDistance_mm: h_mm,
+      subApertureSag_mm,
+    },
+
+    constraints: { pass, reasons },
+
+    score: {
+      total: 0,
+      terms: { usableLight: 0, aberration: 0, obstruction: 0 },
+    },
+
+    audit: {
+      scoringSampleSpec: ctx.scoringSampleSpec,
+      imageQuality: iq,
+    },
+  };
+};
@@ -8,9 +8,13 @@ import {
   DEFAULT_REFLECTIVITY_PER_MIRROR,
   DEFAULT_TUBE_MARGIN_MM,
   RC_BAFFLE_FACTOR,
+  SPIDER_VANE_COUNT,
+  SPIDER_VANE_WIDTH_MM,
 } from "../constants";
-import { twoMirrorLayout } from "./twoMirror";
-import { adaptRaytraceToMetrics } from "../raytrace/adapt";
+import { secondaryBaffle, twoMirrorLayout } from "./twoMirror";
+import { twoMirrorConics } from "./twoMirrorSolve";
+import { adaptRaytraceFieldsToMetrics } from "../raytrace/adapt";
+import { fieldGrid, sensorApertureRadius } from "./fields";
 
 function clampNonNegativeFinite(v: number): number {
   return Number.isFinite(v) && v >= 0 ? v : 0;
@@ -23,9 +27,23 @@ export const rc: DesignGenerator = (spec, params, ctx): Candidate | null => {
 
   if (!(D_mm > 0 && Fp > 0 && Fs > Fp)) return null;
 
-  const layout = twoMirrorLayout(spec, D_mm, Fp, Fs);
+  const layout = twoMirrorLayout(
+    spec,
+    D_mm,
+    Fp,
+    Fs,
+    "cassegrain",
+    params.backFocus_mm,
+  );
   if (!layout) return null;
 
+  const conics = twoMirrorConics(
+    layout,
+    "ritcheyChretien",
+    params.secondaryConic,
+  );
+  if (!conics) return null;
+
   const tubeLength_mm =
     layout.fPrimary_mm * (1 - 1 / layout.magnification) +
     layout.backFocus_mm +
@@ -60,7 +78,7 @@ export const rc: DesignGenerator = (spec, params, ctx): Candidate | null => {
     id: "primary",
     z0_mm: 0,
     R_mm: -2 * layout.fPrimary_mm,
-    K: -1.15,
+    K: conics.primaryK,
     sagSign: -1,
     aperture: {
       kind: "circle",
@@ -70,15 +88,12 @@ export const rc: DesignGenerator = (spec, params, ctx): Candidate | null => {
     material: { kind: "reflector", reflectivity },
   };
 
-  const m = layout.magnification;
-
-  // src/optics/designs/rc.ts
   const secondary: SurfaceConic = {
     kind: "conic",
     id: "secondary",
     z0_mm: -layout.dPrimaryToSecondary_mm,
-    R_mm: -2 * (layout.fPrimary_mm / (m - 1)),
-    K: -2.4,
+    R_mm: -layout.secondaryRadius_mm,
+    K: conics.secondaryK,
     sagSign: 1,
     aperture: { kind: "circle", radius_mm: 0.5 * secondaryDiameter_mm },
     material: { kind: "reflector", reflectivity },
@@ -96,7 +111,10 @@ export const rc: DesignGenerator = (spec, params, ctx): Candidate | null => {
     id: "sensor",
     p0_mm: { x: 0, y: 0, z: layout.backFocus_mm },
     nHat: { x: 0, y: 0, z: 1 },
-    aperture: { kind: "circle", radius_mm: Math.max(1, 2 * fieldRadius_mm) },
+    aperture: {
+      kind: "circle",
+      radius_mm: sensorApertureRadius(spec, fieldRadius_mm),
+    },
     material: { kind: "absorber" },
   };
 
@@ -106,20 +124,21 @@ export const rc: DesignGenerator = (spec, params, ctx): Candidate | null => {
     entrance: {
       zStart_mm: -5 * layout.fPrimary_mm,
       pupilRadius_mm: 0.5 * D_mm,
-      fieldAngles_rad: [0, fieldRadius_mm / layout.fSystem_mm],
+      fieldPoints: fieldGrid(spec, layout.fSystem_mm),
+      spider: { count: SPIDER_VANE_COUNT, width_mm: SPIDER_VANE_WIDTH_MM },
     },
-    surfaces: [primary, secondary],
+    surfaces: [
+      secondaryBaffle(layout, obstructionDiameter_mm),
+      primary,
+      secondary,
+    ],
     sensor: { id: "sensor", plane: sensorPlane },
   };
 
   const sim = ctx.simulator.simulate(plan, ctx.scoringSampleSpec);
   if (!sim.imageQuality || sim.imageQuality.length === 0) return null;
 
-  const aberrations = adaptRaytraceToMetrics(
-    sim.imageQuality.at(-1)!,
-    Fs,
-    sim.imageQuality[0],
-  );
+  const aberrations = adaptRaytraceFieldsToMetrics(sim.imageQuality);
 
   const primaryArea_mm2 = areaCircle(D_mm);
   const obstructionArea_mm2 = areaCircle(obstructionDiameter_mm);
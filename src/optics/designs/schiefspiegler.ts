@@ -0,0 +1,455 @@
+// src/optics/designs/schiefspiegler.ts
+import type { Candidate } from "../types";
+import type { DesignGenerator } from "./types";
+import type {
+  FieldPoint,
+  OpticalPlan,
+  SurfaceConic,
+  SurfacePlane,
+  WavefrontResult,
+} from "../plan/types";
+import type { Vec3 } from "../raytrace/types";
+
+import { toMm, areaCircle } from "../units";
+import {
+  DEFAULT_REFLECTIVITY_PER_MIRROR,
+  DEFAULT_TUBE_MARGIN_MM,
+  DEFAULT_WAVELENGTH_NM,
+  MARECHAL_RMS_WAVES,
+  OFF_AXIS_BEAM_CLEARANCE_MM,
+  SCHIEFSPIEGLER_DECENTER_STEP,
+  SCHIEFSPIEGLER_FAN_FRACTION,
+} from "../constants";
+import { twoMirrorLayout, type TwoMirrorLayout } from "./twoMirror";
+import { twoMirrorConics, type TwoMirrorConics } from "./twoMirrorSolve";
+import { solveNewton } from "./corrector";
+import { add, dot, mul, normalize, sub, v3 } from "../raytrace/math";
+import { traceSingleRay } from "../raytrace/simulator";
+import { ZERNIKE_ASTIG_VERTICAL, ZERNIKE_COMA_X } from "../raytrace/zernike";
+import { adaptRaytraceFieldsToMetrics } from "../raytrace/adapt";
+import { fieldGrid, sensorApertureRadius } from "./fields";
+
+function clampNonNegativeFinite(v: number): number {
+  return Number.isFinite(v) && v >= 0 ? v : 0;
+}
+
+type Tilts = {
+  primaryTilt_rad: number;
+  secondaryTilt_rad: number;
+  secondaryDecenter_mm: number;
+};
+
+type ExitRay = { p: Vec3; u: Vec3 };
+
+// Both mirrors tilt about y, so everything stays in the x–z plane. The primary
+// tilts about its vertex and throws the beam toward −x; the secondary sits d
+// along that chief ray, tilted a further secondaryTilt_rad and slid along its
+// own surface so the chief ray lands secondaryDecenter_mm off its vertex.
+function tiltedMirrors(
+  layout: TwoMirrorLayout,
+  conics: TwoMirrorConics,
+  D_mm: number,
+  tilts: Tilts,
+  reflectivity: number,
+): { primary: SurfaceConic; secondary: SurfaceConic } {
+  const d = layout.dPrimaryToSecondary_mm;
+  const a = tilts.primaryTilt_rad;
+  const b = 2 * a + tilts.secondaryTilt_rad;
+  const delta = tilts.secondaryDecenter_mm;
+
+  const chiefHit = v3(-d * Math.sin(2 * a), 0, -d * Math.cos(2 * a));
+  const ex = v3(Math.cos(b), 0, -Math.sin(b));
+  const vertex = sub(chiefHit, mul(ex, delta));
+
+  return {
+    primary: {
+      kind: "conic",
+      id: "primary",
+      z0_mm: 0,
+      R_mm: -2 * layout.fPrimary_mm,
+      K: conics.primaryK,
+      sagSign: -1,
+      frame: { tiltY_rad: a },
+      aperture: { kind: "circle", radius_mm: (0.5 * D_mm) / Math.cos(a) },
+      material: { kind: "reflector", reflectivity },
+    },
+    secondary: {
+      kind: "conic",
+      id: "secondary",
+      z0_mm: -d,
+      R_mm: -layout.secondaryRadius_mm,
+      K: conics.secondaryK,
+      sagSign: 1,
+      frame: { tiltY_rad: b, decenter_mm: sub(vertex, v3(0, 0, -d)) },
+      aperture: {
+        kind: "circle",
+        radius_mm: 0.5 * layout.secondaryDiameter_mm,
+        offset_mm: { x: delta, y: 0 },
+      },
+      material: { kind: "reflector", reflectivity },
+    },
+  };
+}
+
+function exitRay(
+  plan: OpticalPlan,
+  x_mm: number,
+  y_mm: number,
+): ExitRay | null {
+  const ray = traceSingleRay(
+    plan,
+    0,
+    { x: x_mm, y: y_mm },
+    DEFAULT_WAVELENGTH_NM,
+    4,
+  );
+  if (!ray || !ray.hitSensor || ray.segments.length < 3) return null;
+
+  const last = ray.segments[ray.segments.length - 1];
+  if (ray.segments[ray.segments.length - 2].surfaceId !== "secondary") {
+    return null;
+  }
+  return { p: last.a, u: normalize(sub(last.b, last.a)) };
+}
+
+type FanFocus = {
+  chief: ExitRay;
+  coma_mm: number;
+  astigmatism_mm: number;
+  focusDistance_mm: number;
+};
+
+// On-axis fans measured along the exit chief ray. The ±h tangential pair
+// crosses off the chief ray by the comatic flare and at the tangential focus;
+// a sagittal ray crosses the x–z plane at the sagittal focus.
+function fanFocus(plan: OpticalPlan, h_mm: number): FanFocus | null {
+  const chief = exitRay(plan, 0, 0);
+  const plus = exitRay(plan, h_mm, 0);
+  const minus = exitRay(plan, -h_mm, 0);
+  const sagittal = exitRay(plan, 0, h_mm);
+  if (!chief || !plus || !minus || !sagittal) return null;
+
+  const w = chief.u;
+  const t = normalize(v3(w.z, 0, -w.x));
+  const local = (r: ExitRay) => {
+    const q = sub(r.p, chief.p);
+    return { t: dot(q, t), w: dot(q, w), ut: dot(r.u, t), uw: dot(r.u, w) };
+  };
+
+  const A = local(plus);
+  const B = local(minus);
+  const det = B.ut * A.uw - A.ut * B.uw;
+  if (!(Math.abs(det) > 1e-15)) return null;
+  const s = ((B.t - A.t) * -B.uw + B.ut * (B.w - A.w)) / det;
+  const tangentialT = A.t + s * A.ut;
+  const tangentialW = A.w + s * A.uw;
+
+  if (!(Math.abs(sagittal.u.y) > 1e-15)) return null;
+  const k = -sagittal.p.y / sagittal.u.y;
+  const sagittalW = dot(sub(add(sagittal.p, mul(sagittal.u, k)), chief.p), w);
+
+  return {
+    chief,
+    coma_mm: tangentialT,
+    astigmatism_mm: tangentialW - sagittalW,
+    focusDistance_mm: 0.5 * (tangentialW + sagittalW),
+  };
+}
+
+// Kutter-style tilted two-mirror telescope. The classical Cassegrain pair
+// (paraboloid and hyperboloid) keeps spherical aberration out; the primary
+// tilt is the smallest that puts the secondary beside the incoming beam, and
+// the secondary's tilt and decenter are solved to null coma and
+// astigmatism at the field centre. The trefoil left behind grows fast with
+// the f-ratio, and points whose field centre it takes past the Maréchal
+// limit are rejected. Nothing obstructs the aperture.
+export const schiefspiegler: DesignGenerator = (
+  spec,
+  params,
+  ctx,
+): Candidate | null => {
+  const D_mm = toMm(spec.aperture, spec.apertureUnits);
+  const Fp = params.primaryFRatio;
+  const Fs = params.systemFRatio;
+
+  if (!(D_mm > 0 && Fp > 0 && Fs > Fp)) return null;
+
+  const layout = twoMirrorLayout(spec, D_mm, Fp, Fs, "cassegrain");
+  if (!layout) return null;
+
+  const conics = twoMirrorConics(layout, "classical", params.secondaryConic);
+  if (!conics) return null;
+
+  const a = 0.5 * D_mm;
+  const d = layout.dPrimaryToSecondary_mm;
+
+  const clearance =
+    (a + 0.5 * layout.secondaryDiameter_mm + OFF_AXIS_BEAM_CLEARANCE_MM) / d;
+  if (!(clearance < 1)) return null;
+  const primaryTilt_rad = 0.5 * Math.asin(clearance);
+
+  const reflectivity =
+    spec.coatings.reflectivityPerMirror ?? DEFAULT_REFLECTIVITY_PER_MIRROR;
+
+  const fieldRadius_mm = clampNonNegativeFinite(
+    toMm(
+      spec.constraints.fullyIlluminatedFieldRadius,
+      spec.constraints.fieldUnits,
+    ),
+  );
+
+  const build = (
+    tilts: Tilts,
+    sensorPlane: SurfacePlane,
+    fieldPoints: FieldPoint[] = fieldGrid(spec, layout.fSystem_mm),
+  ): OpticalPlan => {
+    const mirrors = tiltedMirrors(layout, conics, D_mm, tilts, reflectivity);
+    return {
+      id: `schief-Fp${Fp.toFixed(2)}-Fs${Fs.toFixed(2)}`,
+      label: "Schiefspiegler",
+      entrance: {
+        zStart_mm: -5 * layout.fPrimary_mm,
+        pupilRadius_mm: a,
+        fieldPoints,
+      },
+      surfaces: [mirrors.primary, mirrors.secondary],
+      sensor: { id: "sensor", plane: sensorPlane },
+    };
+  };
+
+  // Catch-all plane well behind the primary for the solve.
+  const solveRadius_mm = 10 * layout.fSystem_mm;
+  const solveSensor: SurfacePlane = {
+    kind: "plane",
+    id: "sensor",
+    p0_mm: v3(0, 0, 2 * layout.fSystem_mm),
+    nHat: v3(0, 0, 1),
+    aperture: { kind: "circle", radius_mm: solveRadius_mm },
+    material: { kind: "absorber" },
+  };
+
+  // Square to the exit chief ray at the fans' mean focus.
+  const focusSensor = (focus: FanFocus, radius_mm: number): SurfacePlane => ({
+    kind: "plane",
+    id: "sensor",
+    p0_mm: add(focus.chief.p, mul(focus.chief.u, focus.focusDistance_mm)),
+    nHat: focus.chief.u,
+    aperture: { kind: "circle", radius_mm },
+    material: { kind: "absorber" },
+  });
+
+  const h_mm = SCHIEFSPIEGLER_FAN_FRACTION * a;
+  const fanAt = (secondaryTilt_rad: number, secondaryDecenter_mm: number) =>
+    fanFocus(
+      build(
+        { primaryTilt_rad, secondaryTilt_rad, secondaryDecenter_mm },
+        solveSensor,
+      ),
+      h_mm,
+    );
+
+  // Coma is close to linear in the secondary tilt, so for any decenter a
+  // one-dimensional Newton solve finds the coma-free tilt.
+  const comaFree = (secondaryDecenter_mm: number, tilt0_rad: number) => {
+    const solved = solveNewton(
+      ([tilt]) => {
+        const f = fanAt(tilt, secondaryDecenter_mm);
+        return [f ? f.coma_mm : NaN];
+      },
+      [tilt0_rad],
+      [1e-6],
+      { tolerance: 1e-6 },
+    );
+    if (!solved || !solved.converged) return null;
+    const focus = fanAt(solved.x[0], secondaryDecenter_mm);
+    return focus ? { secondaryTilt_rad: solved.x[0], focus } : null;
+  };
+
+  // A spherical secondary leaves astigmatism behind at the coma-free tilt;
+  // sliding the conic secondary along its surface trades it away. Walk the
+  // decenter toward −x until the astigmatism changes sign, then bisect.
+  const step_mm = SCHIEFSPIEGLER_DECENTER_STEP * a;
+  let lo = comaFree(0, -2 * primaryTilt_rad);
+  if (!lo) return null;
+  let loDecenter_mm = 0;
+  let hi: ReturnType<typeof comaFree> = null;
+  let hiDecenter_mm = 0;
+
+  for (let i = 1; i * step_mm <= 2 * D_mm; i++) {
+    const next = comaFree(-i * step_mm, lo.secondaryTilt_rad);
+    if (!next) return null;
+    if (
+      Math.sign(next.focus.astigmatism_mm) !==
+      Math.sign(lo.focus.astigmatism_mm)
+    ) {
+      hi = next;
+      hiDecenter_mm = -i * step_mm;
+      break;
+    }
+    lo = next;
+    loDecenter_mm = -i * step_mm;
+  }
+  if (!hi) return null;
+
+  for (let it = 0; it < 60; it++) {
+    if (Math.abs(lo.focus.astigmatism_mm) < 1e-5) break;
+    const midDecenter_mm = 0.5 * (loDecenter_mm + hiDecenter_mm);
+    const mid = comaFree(midDecenter_mm, lo.secondaryTilt_rad);
+    if (!mid) return null;
+    if (
+      Math.sign(mid.focus.astigmatism_mm) === Math.sign(lo.focus.astigmatism_mm)
+    ) {
+      lo = mid;
+      loDecenter_mm = midDecenter_mm;
+    } else {
+      hi = mid;
+      hiDecenter_mm = midDecenter_mm;
+    }
+  }
+
+  // The fans null coma and astigmatism in one pupil zone only, and at fast
+  // f-ratios the higher orders leave the on-axis wavefront short of that.
+  // Refine tilt and decenter on the fitted on-axis terms themselves; with
+  // both tilts about y, oblique astigmatism and y coma stay zero.
+  const onAxisField: FieldPoint[] = [{ x_rad: 0, y_rad: 0 }];
+  const onAxisSpec = {
+    ...ctx.scoringSampleSpec,
+    focus: "perField" as const,
+    diffraction: undefined,
+  };
+  const onAxis = (
+    secondaryTilt_rad: number,
+    secondaryDecenter_mm: number,
+  ): { focus: FanFocus; wavefront: WavefrontResult } | null => {
+    const tilts = { primaryTilt_rad, secondaryTilt_rad, secondaryDecenter_mm };
+    const focus = fanFocus(build(tilts, solveSensor), h_mm);
+    if (!focus) return null;
+    const sim = ctx.simulator.simulate(
+      build(tilts, focusSensor(focus, solveRadius_mm), onAxisField),
+      onAxisSpec,
+    );
+    const wavefront = sim.imageQuality?.[0]?.wavefront;
+    return wavefront ? { focus, wavefront } : null;
+  };
+
+  const refined = solveNewton(
+    ([tilt, decenter]) => {
+      const z = onAxis(tilt, decenter)?.wavefront.zernike_waves;
+      return z
+        ? [z[ZERNIKE_ASTIG_VERTICAL - 1], z[ZERNIKE_COMA_X - 1]]
+        : [NaN, NaN];
+    },
+    [lo.secondaryTilt_rad, loDecenter_mm],
+    [1e-6, 1e-3],
+    { tolerance: 1e-4 },
+  );
+  if (!refined) return null;
+  const [secondaryTilt_rad, secondaryDecenter_mm] = refined.x;
+  const solved = onAxis(secondaryTilt_rad, secondaryDecenter_mm);
+  if (!solved) return null;
+
+  // What is left is higher order, inherent to the f-ratio: past the Maréchal
+  // limit the field centre is no longer diffraction limited.
+  if (!(solved.wavefront.rmsFocused_waves <= MARECHAL_RMS_WAVES)) return null;
+
+  const tilts: Tilts = {
+    primaryTilt_rad,
+    secondaryTilt_rad,
+    secondaryDecenter_mm,
+  };
+  const focus = solved.focus;
+
+  const w = focus.chief.u;
+  const sensorPlane = focusSensor(
+    focus,
+    sensorApertureRadius(spec, fieldRadius_mm),
+  );
+  const imagePoint = sensorPlane.p0_mm;
+  const plan = build(tilts, sensorPlane);
+
+  // Focuser clearance: how far along the exit chief ray the focus lies past
+  // the side of the tube, taken at the secondary's outer edge plus the beam
+  // clearance. Negative when the focus falls inside the tube.
+  if (!(w.x < 0)) return null;
+  const tubeSide_mm =
+    focus.chief.p.x -
+    0.5 * layout.secondaryDiameter_mm -
+    OFF_AXIS_BEAM_CLEARANCE_MM;
+  const backFocus_mm = (imagePoint.x - tubeSide_mm) / w.x;
+  const tubeLength_mm =
+    Math.max(imagePoint.z, 0) - focus.chief.p.z + DEFAULT_TUBE_MARGIN_MM;
+
+  const reasons: string[] = [];
+
+  const maxTube_mm = toMm(
+    spec.constraints.maxTubeLength,
+    spec.constraints.tubeLengthUnits,
+  );
+  if (Number.isFinite(maxTube_mm) && tubeLength_mm > maxTube_mm)
+    reasons.push("Tube too long");
+
+  // A focus behind the primary means the converging beam passes its rim.
+  if (w.z > 0 && imagePoint.z > 0) {
+    const s = imagePoint.z / w.z;
+    const chiefAtPrimary = imagePoint.x - s * w.x;
+    const beamRadius = s / (2 * Fs) + fieldRadius_mm;
+    if (-chiefAtPrimary - beamRadius < a + OFF_AXIS_BEAM_CLEARANCE_MM)
+      reasons.push("Returning beam clips the primary");
+  }
+
+  const minBackFocus_mm = clampNonNegativeFinite(
+    toMm(spec.constraints.minBackFocus, spec.constraints.backFocusUnits),
+  );
+  if (minBackFocus_mm > 0 && backFocus_mm < minBackFocus_mm) {
+    reasons.push(
+      `Backfocus requires >= ${minBackFocus_mm.toFixed(0)}mm (current ${backFocus_mm.toFixed(0)}mm)`,
+    );
+  }
+
+  const pass = reasons.length === 0;
+
+  const sim = ctx.simulator.simulate(plan, ctx.scoringSampleSpec);
+  if (!sim.imageQuality || sim.imageQuality.length === 0) return null;
+
+  const aberrations = adaptRaytraceFieldsToMetrics(sim.imageQuality);
+
+  const primaryArea_mm2 = areaCircle(D_mm);
+  const effectiveArea_mm2 = primaryArea_mm2 * Math.pow(reflectivity, 2);
+
+  return {
+    id: plan.id,
+    kind: "schiefspiegler",
+    plan,
+    inputs: {
+      aperture_mm: D_mm,
+      primaryFRatio: Fp,
+      systemFRatio: Fs,
+      primaryFocalLength_mm: layout.fPrimary_mm,
+      systemFocalLength_mm: layout.fSystem_mm,
+    },
+    geometry: {
+      tubeLength_mm,
+      backFocus_mm,
+      secondaryDiameter_mm: layout.secondaryDiameter_mm,
+      obstructionRatio: 0,
+    },
+    throughput: {
+      primaryArea_mm2,
+      effectiveArea_mm2,
+      usableLightEfficiency: effectiveArea_mm2 / primaryArea_mm2,
+      mirrorCount: 2,
+      transmissionFactor: Math.pow(reflectivity, 2),
+    },
+    aberrations,
+    tilts,
+    constraints: { pass, reasons },
+    score: {
+      total: 0,
+      terms: { usableLight: 0, aberration: 0, obstruction: 0 },
+    },
+    audit: {
+      scoringSampleSpec: ctx.scoringSampleSpec,
+      imageQuality: sim.imageQuality,
+    },
+  };
+};
@@ -1,17 +1,28 @@
 // src/optics/designs/sct.ts
 import type { Candidate } from "../types";
 import type { DesignGenerator } from "./types";
-import type { OpticalPlan, SurfaceConic, SurfacePlane } from "../plan/types";
+import type {
+  OpticalPlan,
+  SurfaceConic,
+  SurfaceAsphere,
+  SurfacePlane,
+} from "../plan/types";
 
 import { toMm, areaCircle } from "../units";
 import {
   DEFAULT_REFLECTIVITY_PER_MIRROR,
   DEFAULT_CORRECTOR_TRANSMISSION,
   DEFAULT_TUBE_MARGIN_MM,
+  DEFAULT_WAVELENGTH_NM,
   SCT_BAFFLE_FACTOR,
+  SCT_CORRECTOR_GAP_MM,
+  SCT_CORRECTOR_GLASS,
+  SCT_CORRECTOR_MIN_THICKNESS_MM,
 } from "../constants";
-import { twoMirrorLayout } from "./twoMirror";
-import { adaptRaytraceToMetrics } from "../raytrace/adapt";
+import { secondaryBaffle, twoMirrorLayout } from "./twoMirror";
+import { axialCrossingZ, solveNewton } from "./corrector";
+import { adaptRaytraceFieldsToMetrics } from "../raytrace/adapt";
+import { fieldGrid, sensorApertureRadius } from "./fields";
 
 function clampNonNegativeFinite(v: number): number {
   return Number.isFinite(v) && v >= 0 ? v : 0;
@@ -24,7 +35,14 @@ export const sct: DesignGenerator = (spec, params, ctx): Candidate | null => {
 
   if (!(D_mm > 0 && Fp > 0 && Fs > 0)) return null;
 
-  const layout = twoMirrorLayout(spec, D_mm, Fp, Fs);
+  const layout = twoMirrorLayout(
+    spec,
+    D_mm,
+    Fp,
+    Fs,
+    "cassegrain",
+    params.backFocus_mm,
+  );
   if (!layout) return null;
 
   const tubeLength_mm =
@@ -98,72 +116,146 @@ export const sct: DesignGenerator = (spec, params, ctx): Candidate | null => {
     ),
   );
 
-  const fieldAngle_rad =
-    fieldRadius_mm > 0 ? fieldRadius_mm / layout.fSystem_mm : 0;
-
-  const primary: SurfaceConic = {
-    kind: "conic",
-    id: "primary",
-    z0_mm: 0,
-    R_mm: -2 * layout.fPrimary_mm,
-    K: -1,
-    sagSign: -1,
-    aperture: {
-      kind: "circle",
-      radius_mm: 0.5 * D_mm,
-      innerRadius_mm: 0.5 * obstructionDiameter_mm,
-    },
-    material: { kind: "reflector", reflectivity },
-  };
-
-  const secondary: SurfaceConic = {
-    kind: "conic",
-    id: "secondary",
-    z0_mm: -layout.dPrimaryToSecondary_mm,
-    R_mm: 2 * (-layout.fPrimary_mm / Math.max(1e-6, layout.magnification - 1)),
-    K: -1,
-    sagSign: 1,
-    aperture: { kind: "circle", radius_mm: 0.5 * secondaryDiameter_mm },
-    material: { kind: "reflector", reflectivity },
-  };
-
-  const correctorPlane: SurfacePlane = {
-    kind: "plane",
-    id: "corrector",
-    p0_mm: { x: 0, y: 0, z: -1 },
-    nHat: { x: 0, y: 0, z: -1 },
-    aperture: { kind: "circle", radius_mm: 0.5 * D_mm },
-    material: { kind: "transmitter", transmission: correctorTransmission },
-  };
+  const r0 = 0.5 * D_mm;
+  const d = layout.dPrimaryToSecondary_mm;
+  const secondarySemiAperture_mm = 0.5 * secondaryDiameter_mm;
+  const secondaryEdgeSag_mm =
+    (secondarySemiAperture_mm * secondarySemiAperture_mm) /
+    (2 * layout.secondaryRadius_mm);
 
-  const sensorPlane: SurfacePlane = {
-    kind: "plane",
-    id: "sensor",
-    p0_mm: { x: 0, y: 0, z: layout.backFocus_mm },
-    nHat: { x: 0, y: 0, z: 1 },
-    aperture: { kind: "circle", radius_mm: Math.max(1, 2 * fieldRadius_mm) },
-    material: { kind: "absorber" },
+  const correctorThickness_mm = Math.max(
+    SCT_CORRECTOR_MIN_THICKNESS_MM,
+    D_mm / 60,
+  );
+  const correctorBack_mm = -d - secondaryEdgeSag_mm - SCT_CORRECTOR_GAP_MM;
+  const correctorFront_mm = correctorBack_mm - correctorThickness_mm;
+
+  // Corrector figure c4·(ρ⁴ - 1.5ρ²) + c6·ρ⁶ over ρ = r/r0, with the ρ²
+  // term carried by the base radius so the neutral zone sits near 0.87.
+  const buildPlan = (
+    c4_mm: number,
+    c6_mm: number,
+    R2_mm: number,
+    solving: boolean,
+  ): OpticalPlan => {
+    const correctorFront: SurfaceAsphere = {
+      kind: "asphere",
+      id: "corrector",
+      z0_mm: correctorFront_mm,
+      R_mm: c4_mm === 0 ? 0 : -(r0 * r0) / (3 * c4_mm),
+      K: 0,
+      coefficients: [c4_mm / Math.pow(r0, 4), c6_mm / Math.pow(r0, 6)],
+      sagSign: -1,
+      aperture: { kind: "circle", radius_mm: r0 },
+      material: {
+        kind: "transmitter",
+        transmission: correctorTransmission,
+        glass: SCT_CORRECTOR_GLASS,
+      },
+    };
+
+    const correctorBack: SurfacePlane = {
+      kind: "plane",
+      id: "corrector-back",
+      p0_mm: { x: 0, y: 0, z: correctorBack_mm },
+      nHat: { x: 0, y: 0, z: -1 },
+      aperture: { kind: "circle", radius_mm: r0 },
+      material: { kind: "transmitter", refractiveIndex: 1 },
+    };
+
+    const primary: SurfaceConic = {
+      kind: "conic",
+      id: "primary",
+      z0_mm: 0,
+      R_mm: -2 * layout.fPrimary_mm,
+      K: 0,
+      sagSign: -1,
+      aperture: {
+        kind: "circle",
+        radius_mm: r0,
+        innerRadius_mm: 0.5 * obstructionDiameter_mm,
+      },
+      material: { kind: "reflector", reflectivity },
+    };
+
+    const secondary: SurfaceConic = {
+      kind: "conic",
+      id: "secondary",
+      z0_mm: -d,
+      R_mm: R2_mm,
+      K: 0,
+      sagSign: 1,
+      aperture: { kind: "circle", radius_mm: secondarySemiAperture_mm },
+      material: { kind: "reflector", reflectivity },
+    };
+
+    const sensorPlane: SurfacePlane = {
+      kind: "plane",
+      id: "sensor",
+      p0_mm: { x: 0, y: 0, z: layout.backFocus_mm },
+      nHat: { x: 0, y: 0, z: 1 },
+      aperture: {
+        kind: "circle",
+        radius_mm: solving ? D_mm : sensorApertureRadius(spec, fieldRadius_mm),
+      },
+      material: { kind: "absorber" },
+    };
+
+    return {
+      id: `sct-Fp${Fp.toFixed(2)}-Fs${Fs.toFixed(2)}`,
+      label: "Schmidt-Cassegrain",
+      entrance: {
+        zStart_mm: -5 * layout.fPrimary_mm,
+        pupilRadius_mm: r0,
+        fieldPoints: fieldGrid(spec, layout.fSystem_mm),
+      },
+      surfaces: [
+        correctorFront,
+        correctorBack,
+        secondaryBaffle(layout, obstructionDiameter_mm),
+        primary,
+        secondary,
+      ],
+      sensor: { id: "sensor", plane: sensorPlane },
+    };
   };
 
-  const plan: OpticalPlan = {
-    id: `sct-Fp${Fp.toFixed(2)}-Fs${Fs.toFixed(2)}`,
-    label: "Schmidt-Cassegrain",
-    entrance: {
-      zStart_mm: -5 * layout.fPrimary_mm,
-      pupilRadius_mm: 0.5 * D_mm,
-      fieldAngles_rad: [0, fieldAngle_rad],
+  // Rays inside the obstruction never reach the image, so the corrector
+  // brings the inner, middle and marginal zones of the unobstructed annulus
+  // to a common focus and the secondary radius holds that focus on the
+  // sensor.
+  const hInner_mm = Math.min(
+    0.9 * r0,
+    0.5 * obstructionDiameter_mm + 0.05 * r0,
+  );
+  const hEdge_mm = 0.99 * r0;
+  const zoneHeights_mm = [
+    hInner_mm,
+    Math.sqrt(0.5 * (hInner_mm * hInner_mm + hEdge_mm * hEdge_mm)),
+    hEdge_mm,
+  ];
+  const solved = solveNewton(
+    ([c4, c6, R2]) => {
+      const trial = buildPlan(c4, c6, R2, true);
+      return zoneHeights_mm.map(
+        (h) =>
+          axialCrossingZ(trial, h, DEFAULT_WAVELENGTH_NM) -
+          layout.backFocus_mm,
+      );
     },
-    surfaces: [correctorPlane, primary, secondary],
-    sensor: { id: "sensor", plane: sensorPlane },
-  };
+    [0, 0, -layout.secondaryRadius_mm],
+    [1e-5, 1e-5, 1e-4 * layout.secondaryRadius_mm],
+  );
+  if (!solved || !solved.converged) return null;
+
+  const [c4_mm, c6_mm, R2_mm] = solved.x;
+  const plan = buildPlan(c4_mm, c6_mm, R2_mm, false);
 
   const sim = ctx.simulator.simulate(plan, ctx.scoringSampleSpec);
   const iq = sim.imageQuality ?? [];
   if (iq.length === 0) return null;
 
-  const iqOnAxis = iq[0];
-  const iqEdge = iq[iq.length - 1];
-  const aberrations = adaptRaytraceToMetrics(iqEdge, Fs, iqOnAxis);
+  const aberrations = adaptRaytraceFieldsToMetrics(iq);
 
   return {
     id: plan.id,
@@ -1,13 +1,22 @@
 // src/optics/designs/twoMirror.ts
 import type { InputSpec } from "../types";
+import type { SurfacePlane } from "../plan/types";
 import { toMm } from "../units";
 
+// "cassegrain": convex secondary inside the primary focus.
+// "gregorian": concave secondary beyond the primary focus (erect image).
+export type TwoMirrorGeometry = "cassegrain" | "gregorian";
+
 export type TwoMirrorLayout = {
+  geometry: TwoMirrorGeometry;
   fPrimary_mm: number;
   fSystem_mm: number;
   magnification: number;
   backFocus_mm: number;
   dPrimaryToSecondary_mm: number;
+  // Unsigned; the secondary is convex toward the primary for a Cassegrain
+  // and concave toward it for a Gregorian.
+  secondaryRadius_mm: number;
   secondaryDiameter_mm: number;
   coneRadiusAtSecondary_mm: number;
   chiefRayHeightAtSecondary_mm: number;
@@ -17,11 +26,15 @@ function clampNonNegativeFinite(v: number): number {
   return Number.isFinite(v) && v >= 0 ? v : 0;
 }
 
+// Back focus is `backFocusOverride_mm` when given, otherwise the spec's
+// minimum.
 export function twoMirrorLayout(
   spec: InputSpec,
   D_mm: number,
   Fp: number,
   Fs: number,
+  geometry: TwoMirrorGeometry = "cassegrain",
+  backFocusOverride_mm?: number,
 ): TwoMirrorLayout | null {
   if (!Number.isFinite(D_mm) || D_mm <= 0) return null;
   if (!Number.isFinite(Fp) || !Number.isFinite(Fs)) return null;
@@ -36,10 +49,26 @@ export function twoMirrorLayout(
     toMm(spec.constraints.minBackFocus, spec.constraints.backFocusUnits),
   );
 
-  const backFocus_mm = minBackFocus_mm;
+  const backFocus_mm = backFocusOverride_mm ?? minBackFocus_mm;
+  if (!Number.isFinite(backFocus_mm) || backFocus_mm < 0) return null;
+
+  let d: number;
+  let secondaryRadius_mm: number;
+
+  if (geometry === "gregorian") {
+    // Secondary sits e beyond the primary focus and reimages it at m = (f1 + e + b) / e.
+    const e = (fPrimary_mm + backFocus_mm) / (magnification - 1);
+    if (!Number.isFinite(e) || e <= 0) return null;
 
-  const d = (magnification * fPrimary_mm - backFocus_mm) / (magnification + 1);
-  if (!Number.isFinite(d) || d <= 0 || d >= fPrimary_mm) return null;
+    d = fPrimary_mm + e;
+    secondaryRadius_mm = (2 * magnification * e) / (magnification + 1);
+  } else {
+    d = (magnification * fPrimary_mm - backFocus_mm) / (magnification + 1);
+    if (!Number.isFinite(d) || d <= 0 || d >= fPrimary_mm) return null;
+
+    const p = fPrimary_mm - d;
+    secondaryRadius_mm = (2 * magnification * p) / (magnification - 1);
+  }
 
   const fieldRadius_mm = clampNonNegativeFinite(
     toMm(
@@ -48,7 +77,8 @@ export function twoMirrorLayout(
     ),
   );
 
-  const coneRadiusAtSecondary_mm = 0.5 * D_mm * (1 - d / fPrimary_mm);
+  const coneRadiusAtSecondary_mm =
+    0.5 * D_mm * Math.abs(1 - d / fPrimary_mm);
   if (
     !Number.isFinite(coneRadiusAtSecondary_mm) ||
     coneRadiusAtSecondary_mm <= 0
@@ -56,8 +86,14 @@ export function twoMirrorLayout(
     return null;
   }
 
+  // A Gregorian secondary sees the field after the prime-focus image, where
+  // the chief ray leaving the primary vertex has spread to θ·d.
   const chiefRayHeightAtSecondary_mm =
-    fieldRadius_mm > 0 ? (fieldRadius_mm * (backFocus_mm + d)) / fSystem_mm : 0;
+    fieldRadius_mm <= 0
+      ? 0
+      : geometry === "gregorian"
+        ? (fieldRadius_mm * d) / fSystem_mm
+        : (fieldRadius_mm * (backFocus_mm + d)) / fSystem_mm;
 
   const secondaryDiameter_mm =
     2 * (coneRadiusAtSecondary_mm + chiefRayHeightAtSecondary_mm);
@@ -65,13 +101,44 @@ export function twoMirrorLayout(
     return null;
 
   return {
+    geometry,
     fPrimary_mm,
     fSystem_mm,
     magnification,
     backFocus_mm,
     dPrimaryToSecondary_mm: d,
+    secondaryRadius_mm,
     secondaryDiameter_mm,
     coneRadiusAtSecondary_mm,
     chiefRayHeightAtSecondary_mm,
   };
 }
+
+// Absorbing disc just behind the secondary's rim, standing in for the
+// secondary holder so sky light inside the obstruction cannot fall through
+// the primary's central hole onto the sensor.
+export function secondaryBaffle(
+  layout: TwoMirrorLayout,
+  obstructionDiameter_mm: number,
+): SurfacePlane {
+  const h = 0.5 * layout.secondaryDiameter_mm;
+  // A concave Gregorian secondary curves away from the sky, so its vertex
+  // is already the sky-most point.
+  const edgeSag_mm =
+    layout.geometry === "gregorian"
+      ? 0
+      : (h * h) / (2 * layout.secondaryRadius_mm);
+
+  return {
+    kind: "plane",
+    id: "secondary-baffle",
+    p0_mm: {
+      x: 0,
+      y: 0,
+      z: -layout.dPrimaryToSecondary_mm - edgeSag_mm - 1,
+    },
+    nHat: { x: 0, y: 0, z: -1 },
+    aperture: { kind: "circle", radius_mm: 0.5 * obstructionDiameter_mm },
+    material: { kind: "absorber" },
+  };
+}
@@ -0,0 +1,64 @@
+// src/optics/designs/twoMirrorSolve.ts
+import type { TwoMirrorLayout } from "./twoMirror";
+
+export type TwoMirrorForm =
+  | "classical"
+  | "ritcheyChretien"
+  | "dallKirkham"
+  | "aplanaticGregorian";
+
+export type TwoMirrorConics = {
+  primaryK: number;
+  secondaryK: number;
+};
+
+// Third-order conic constants for a two-mirror telescope with secondary
+// magnification m and back focus b = β·f1 behind the primary vertex
+// (Schroeder, ch. 6). m is negative for a Gregorian. Classical and
+// Dall–Kirkham zero spherical aberration; Ritchey–Chrétien and the aplanatic
+// Gregorian zero coma as well.
+function solveConics(
+  layout: TwoMirrorLayout,
+  form: TwoMirrorForm,
+): TwoMirrorConics | null {
+  if (!(layout.magnification > 1)) return null;
+  const m =
+    layout.geometry === "gregorian"
+      ? -layout.magnification
+      : layout.magnification;
+  const beta = layout.backFocus_mm / layout.fPrimary_mm;
+  if (!Number.isFinite(beta)) return null;
+
+  const afocalK2 = -Math.pow((m + 1) / (m - 1), 2);
+
+  if (form === "classical") {
+    return { primaryK: -1, secondaryK: afocalK2 };
+  }
+
+  if (form === "ritcheyChretien" || form === "aplanaticGregorian") {
+    if (m > 0 && !(m - beta > 0)) return null;
+    return {
+      primaryK: -1 - (2 * (1 + beta)) / (m * m * (m - beta)),
+      secondaryK:
+        afocalK2 -
+        (2 * m * (m + 1)) / ((m - beta) * Math.pow(m - 1, 3)),
+    };
+  }
+
+  return {
+    primaryK: -1 + ((1 + beta) * (m * m - 1)) / (m * m * m),
+    secondaryK: 0,
+  };
+}
+
+// The solved conics, with the secondary's replaced when `secondaryK` is
+// given; the primary keeps its solution either way.
+export function twoMirrorConics(
+  layout: TwoMirrorLayout,
+  form: TwoMirrorForm,
+  secondaryK?: number,
+): TwoMirrorConics | null {
+  const solved = solveConics(layout, form);
+  if (!solved || secondaryK === undefined) return solved;
+  return Number.isFinite(secondaryK) ? { ...solved, secondaryK } : null;
+}
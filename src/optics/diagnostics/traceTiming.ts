@@ -0,0 +1,108 @@
+// src/optics/diagnostics/traceTiming.ts
+//
+// Times simulate() on a fixed RC, SCT and Maksutov, and a small sweep, with
+// the lab's scoring sample spec:
+//
+//   npx tsx src/optics/diagnostics/traceTiming.ts [runs] [plans.json]
+//
+// Given a plans file that does not exist yet, the plans are written there;
+// given one that does, they are read back, so two checkouts can be timed on
+// the same plans. The hash of each result shows whether they agree.
+import { createHash } from "crypto";
+import { existsSync, readFileSync, writeFileSync } from "fs";
+import type { OpticalPlan, SampleSpec } from "../plan/types";
+import type { DesignContext, DesignGenerator } from "../designs/types";
+import { rc } from "../designs/rc";
+import { sct } from "../designs/sct";
+import { maksutov } from "../designs/maksutov";
+import { createRaytraceSimulator } from "../raytrace/simulator";
+import { runSweep } from "../sweep";
+import { DEFAULT_PIXEL_SIZE_UM } from "../constants";
+import { defaultLabState } from "../../ui/state";
+
+const SAMPLE_SPEC: SampleSpec = {
+  pupil: { kind: "grid" },
+  raysPerField: 64,
+  maxBounces: 8,
+  wavelengths: [
+    { wavelength_nm: 486.1, weight: 0.5 },
+    { wavelength_nm: 587.6, weight: 1 },
+    { wavelength_nm: 656.3, weight: 0.5 },
+  ],
+  pixelSize_um: DEFAULT_PIXEL_SIZE_UM,
+};
+
+const DESIGNS: [string, DesignGenerator, number, number][] = [
+  ["rc", rc, 3, 10],
+  ["sct", sct, 2.5, 10],
+  ["maksutov", maksutov, 2.5, 13],
+];
+
+// Untimed runs first, so the JIT has settled before anything is measured.
+const WARMUP_RUNS = 50;
+const SWEEP_WARMUP_RUNS = 2;
+
+function timeRuns(
+  runs: number,
+  warmup: number,
+  f: () => unknown,
+): { median: number; min: number; last: unknown } {
+  for (let i = 0; i < warmup; i++) f();
+  const times: number[] = [];
+  let last: unknown;
+  for (let i = 0; i < runs; i++) {
+    const t0 = performance.now();
+    last = f();
+    times.push(performance.now() - t0);
+  }
+  times.sort((a, b) => a - b);
+  return { median: times[times.length >> 1], min: times[0], last };
+}
+
+function hash(value: unknown): string {
+  return createHash("sha1")
+    .update(JSON.stringify(value))
+    .digest("hex")
+    .slice(0, 12);
+}
+
+const runs = Math.max(1, Number(process.argv[2] ?? 50) || 50);
+const plansPath = process.argv[3];
+
+const simulator = createRaytraceSimulator();
+const ctx: DesignContext = { simulator, scoringSampleSpec: SAMPLE_SPEC };
+const spec = defaultLabState().spec;
+
+let plans: Record<string, OpticalPlan> = {};
+if (plansPath && existsSync(plansPath)) {
+  plans = JSON.parse(readFileSync(plansPath, "utf8"));
+} else {
+  for (const [name, generator, Fp, Fs] of DESIGNS) {
+    const c = generator(spec, { primaryFRatio: Fp, systemFRatio: Fs }, ctx);
+    if (c?.plan) plans[name] = c.plan;
+  }
+  if (plansPath) writeFileSync(plansPath, JSON.stringify(plans));
+}
+
+for (const [name, plan] of Object.entries(plans)) {
+  const t = timeRuns(runs, WARMUP_RUNS, () =>
+    simulator.simulate(plan, SAMPLE_SPEC),
+  );
+  console.log(
+    `${name.padEnd(10)} simulate  median ${t.median.toFixed(2)} ms  min ${t.min.toFixed(2)} ms  result ${hash(t.last)}`,
+  );
+}
+
+const sweepSpec = {
+  ...spec,
+  designKinds: DESIGNS.map(([name]) => name) as typeof spec.designKinds,
+  sweep: { ...spec.sweep, primaryFRatioStep: 1, systemFRatioStep: 2 },
+};
+const sweep = timeRuns(
+  Math.max(1, Math.round(runs / 25)),
+  SWEEP_WARMUP_RUNS,
+  () => runSweep(sweepSpec, ctx),
+);
+console.log(
+  `${"sweep".padEnd(10)} runSweep  median ${sweep.median.toFixed(0)} ms  min ${sweep.min.toFixed(0)} ms  result ${hash(sweep.last)}`,
+);
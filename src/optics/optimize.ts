@@ -0,0 +1,373 @@
+// src/optics/optimize.ts
+import type {
+  Candidate,
+  DesignParams,
+  InputSpec,
+  OpticDesignKind,
+  SweepPoint,
+} from "./types";
+import type { DesignContext } from "./designs/types";
+import type { CandidateCache } from "./candidateCache";
+import type { SweepResult } from "./sweep";
+
+import {
+  checkConstraints,
+  evaluateSweepJob,
+  isPrimeFocusKind,
+  rankSweep,
+} from "./sweep";
+import { computeScoreBounds, scoreCandidate, type ScoreBounds } from "./score";
+import {
+  BACK_FOCUS_PATH,
+  backFocusRange,
+  hasFreeBackFocus,
+  sweepPointParams,
+} from "./sweepAxes";
+import { toMm } from "./units";
+import {
+  OPTIMIZER_MAX_ITERATIONS,
+  OPTIMIZER_MAX_SEEDS,
+  OPTIMIZER_TOLERANCE,
+} from "./constants";
+
+// A grid candidate to start from, with its score on the grid. The optimizer
+// moves only the f-ratios; the seed's point on any extra axes stays put.
+export type OptimizerSeed = {
+  kind: OpticDesignKind;
+  params: DesignParams;
+  point?: SweepPoint;
+  score: number;
+};
+
+// Best vertex of the simplex after each iteration; iteration 0 is the start.
+export type OptimizerStep = {
+  iteration: number;
+  params: DesignParams;
+  score: number;
+};
+
+export type OptimizerRun = {
+  kind: OpticDesignKind;
+  seed: OptimizerSeed;
+  params: DesignParams;
+  score: number;
+  candidate: Candidate | null;
+  iterations: number;
+  evaluations: number;
+  converged: boolean;
+  trajectory: OptimizerStep[];
+};
+
+// Scores are on the grid's bounds throughout, so runs compare with the grid
+// and with each other.
+export type OptimizationResult = {
+  bounds: ScoreBounds;
+  runs: OptimizerRun[];
+};
+
+type Axis = {
+  param: "primaryFRatio" | "systemFRatio" | "backFocus_mm";
+  lo: number;
+  hi: number;
+  step: number;
+};
+
+type Vertex = { x: number[]; f: number };
+
+function clamp01(v: number): number {
+  return Math.min(1, Math.max(0, v));
+}
+
+function axis(
+  param: Axis["param"],
+  min: number,
+  max: number,
+  step: number,
+): Axis | null {
+  const lo = Math.min(min, max);
+  const hi = Math.max(min, max);
+  if (!Number.isFinite(lo) || !Number.isFinite(hi) || hi - lo < 1e-9) {
+    return null;
+  }
+  const s = Number.isFinite(step) && step > 0 ? step : 0.1 * (hi - lo);
+  return { param, lo, hi, step: Math.min(s, hi - lo) };
+}
+
+// Parameters the optimizer may move for a kind: the swept ranges that are
+// wider than a point, and back focus for two-mirror kinds when the spec gives
+// it a range. Prime-focus kinds have only the primary f-ratio.
+function freeAxes(spec: InputSpec, kind: OpticDesignKind): Axis[] {
+  const s = spec.sweep;
+  const backFocus = hasFreeBackFocus(kind) ? backFocusRange(spec) : null;
+  const axes = [
+    axis(
+      "primaryFRatio",
+      s.primaryFRatioMin,
+      s.primaryFRatioMax,
+      s.primaryFRatioStep,
+    ),
+    isPrimeFocusKind(kind)
+      ? null
+      : axis(
+          "systemFRatio",
+          s.systemFRatioMin,
+          s.systemFRatioMax,
+          s.systemFRatioStep,
+        ),
+    backFocus
+      ? axis(
+          "backFocus_mm",
+          backFocus.min_mm,
+          backFocus.max_mm,
+          toMm(s.backFocusStep ?? NaN, spec.constraints.backFocusUnits),
+        )
+      : null,
+  ];
+  return axes.filter((a): a is Axis => a !== null);
+}
+
+function paramsAt(
+  kind: OpticDesignKind,
+  seed: DesignParams,
+  axes: Axis[],
+  x: number[],
+): DesignParams {
+  const p = { ...seed };
+  axes.forEach((a, i) => {
+    p[a.param] = a.lo + clamp01(x[i]) * (a.hi - a.lo);
+  });
+  return isPrimeFocusKind(kind)
+    ? { primaryFRatio: p.primaryFRatio, systemFRatio: p.primaryFRatio }
+    : p;
+}
+
+// Nelder–Mead on the unit box, minimising f. New points are clamped to the
+// box; a vertex outside the feasible region scores Infinity and is the first
+// to be replaced. Stops when the simplex is smaller than `tolerance` across.
+function nelderMead(
+  f: (x: number[]) => number,
+  x0: number[],
+  steps: number[],
+  maxIterations: number,
+  tolerance: number,
+  onIteration: (iteration: number, best: Vertex) => void,
+): { best: Vertex; iterations: number; converged: boolean } {
+  const n = x0.length;
+  const clampBox = (x: number[]) => x.map(clamp01);
+  const vertex = (x: number[]): Vertex => {
+    const c = clampBox(x);
+    return { x: c, f: f(c) };
+  };
+  const along = (from: number[], to: number[], t: number) =>
+    from.map((v, i) => v + t * (to[i] - v));
+
+  const simplex: Vertex[] = [vertex(x0)];
+  for (let i = 0; i < n; i++) {
+    const x = [...simplex[0].x];
+    // Step away from the nearer edge so the vertex stays distinct.
+    x[i] = x[i] + steps[i] <= 1 ? x[i] + steps[i] : x[i] - steps[i];
+    simplex.push(vertex(x));
+  }
+  const order = () => simplex.sort((a, b) => a.f - b.f);
+  order();
+  onIteration(0, simplex[0]);
+
+  let iterations = 0;
+  let converged = false;
+  while (iterations < maxIterations) {
+    const best = simplex[0];
+    let size = 0;
+    for (const v of simplex) {
+      for (let i = 0; i < n; i++) {
+        size = Math.max(size, Math.abs(v.x[i] - best.x[i]));
+      }
+    }
+    if (size < tolerance) {
+      converged = true;
+      break;
+    }
+
+    const worst = simplex[n];
+    const centroid = new Array<number>(n).fill(0);
+    for (let k = 0; k < n; k++) {
+      for (let i = 0; i < n; i++) centroid[i] += simplex[k].x[i] / n;
+    }
+
+    const reflected = vertex(along(centroid, worst.x, -1));
+    if (reflected.f < best.f) {
+      const expanded = vertex(along(centroid, worst.x, -2));
+      simplex[n] = expanded.f < reflected.f ? expanded : reflected;
+    } else if (reflected.f < simplex[n - 1].f) {
+      simplex[n] = reflected;
+    } else {
+      const outside = reflected.f < worst.f;
+      const contracted = vertex(
+        along(centroid, outside ? reflected.x : worst.x, 0.5),
+      );
+      if (contracted.f < Math.min(reflected.f, worst.f)) {
+        simplex[n] = contracted;
+      } else {
+        for (let k = 1; k <= n; k++) {
+          simplex[k] = vertex(along(best.x, simplex[k].x, 0.5));
+        }
+      }
+    }
+
+    order();
+    iterations++;
+    onIteration(iterations, simplex[0]);
+  }
+
+  return { best: simplex[0], iterations, converged };
+}
+
+// The best grid candidate of each kind, in rank order, up to the seed limit.
+export function optimizerSeeds(grid: SweepResult): OptimizerSeed[] {
+  const out: OptimizerSeed[] = [];
+  const seen = new Set<OpticDesignKind>();
+  for (const c of grid.ranked) {
+    if (seen.has(c.kind)) continue;
+    seen.add(c.kind);
+    const backFocus_mm = sweepPointParams(c.sweepPoint).backFocus_mm;
+    out.push({
+      kind: c.kind,
+      params: {
+        primaryFRatio: c.inputs.primaryFRatio,
+        systemFRatio: c.inputs.systemFRatio,
+        ...(backFocus_mm !== undefined ? { backFocus_mm } : {}),
+      },
+      point: c.sweepPoint,
+      score: c.score.total,
+    });
+    if (out.length >= OPTIMIZER_MAX_SEEDS) break;
+  }
+  return out;
+}
+
+export function optimizerBounds(grid: SweepResult): ScoreBounds {
+  return computeScoreBounds(grid.ranked);
+}
+
+// Maximises scoreCandidate over the seed kind's free parameters, inside the
+// sweep ranges and subject to the sweep's constraints.
+export function optimizeSeed(
+  spec: InputSpec,
+  seed: OptimizerSeed,
+  bounds: ScoreBounds,
+  ctx: DesignContext,
+  cache?: CandidateCache,
+): OptimizerRun {
+  const axes = freeAxes(spec, seed.kind);
+  const seen = new Map<string, { raw: Candidate | null; score: number }>();
+
+  // Infeasible or failed designs score -Infinity. Points the simplex comes
+  // back to are not regenerated.
+  const evaluate = (params: DesignParams) => {
+    const key = `${params.primaryFRatio}:${params.systemFRatio}:${params.backFocus_mm}`;
+    const known = seen.get(key);
+    if (known) return known;
+
+    const point =
+      params.backFocus_mm === undefined
+        ? seed.point
+        : { ...seed.point, [BACK_FOCUS_PATH]: params.backFocus_mm };
+    const raw = evaluateSweepJob(
+      spec,
+      {
+        kind: seed.kind,
+        primaryFRatio: params.primaryFRatio,
+        systemFRatio: params.systemFRatio,
+        point,
+      },
+      ctx,
+      cache,
+    );
+    let score = -Infinity;
+    if (raw) {
+      const checked = checkConstraints(spec, raw);
+      if (checked.constraints.pass) {
+        const total = scoreCandidate(checked, bounds, spec.weights).score.total;
+        if (Number.isFinite(total)) score = total;
+      }
+    }
+    const out = { raw, score };
+    seen.set(key, out);
+    return out;
+  };
+
+  // A seed without a back focus was laid out at the minimum.
+  const x0 = axes.map((a) =>
+    clamp01(((seed.params[a.param] ?? a.lo) - a.lo) / (a.hi - a.lo)),
+  );
+  const trajectory: OptimizerStep[] = [];
+
+  const result = nelderMead(
+    (x) => -evaluate(paramsAt(seed.kind, seed.params, axes, x)).score,
+    x0,
+    axes.map((a) => a.step / (a.hi - a.lo)),
+    axes.length > 0 ? OPTIMIZER_MAX_ITERATIONS : 0,
+    OPTIMIZER_TOLERANCE,
+    (iteration, best) =>
+      trajectory.push({
+        iteration,
+        params: paramsAt(seed.kind, seed.params, axes, best.x),
+        score: -best.f,
+      }),
+  );
+
+  const params = paramsAt(seed.kind, seed.params, axes, result.best.x);
+  const final = evaluate(params);
+
+  return {
+    kind: seed.kind,
+    seed,
+    params,
+    score: final.score,
+    candidate: final.raw,
+    iterations: result.iterations,
+    evaluations: seen.size,
+    converged: result.converged || axes.length === 0,
+    trajectory,
+  };
+}
+
+// Grid ranking with the optimizer's improvements added. An improved design
+// gets an "-opt" id so it can sit beside the grid point it came from.
+export function mergeOptimization(
+  spec: InputSpec,
+  grid: SweepResult,
+  optimization: OptimizationResult,
+  topN: number = 25,
+): SweepResult {
+  const improved: Candidate[] = [];
+  for (const run of optimization.runs) {
+    if (!run.candidate || !(run.score > run.seed.score)) continue;
+    improved.push({ ...run.candidate, id: `${run.candidate.id}-opt` });
+  }
+
+  const ranked = rankSweep(spec, [...grid.candidates, ...improved], topN);
+  return {
+    ...ranked,
+    derivedSpec: grid.derivedSpec,
+    warnings: grid.warnings,
+    appliedSpec: grid.appliedSpec,
+    refinement: grid.refinement,
+    noDesign: grid.noDesign,
+    optimization,
+  };
+}
+
+// Runs the optimizer from each seed on the calling thread.
+export function refineSweep(
+  spec: InputSpec,
+  grid: SweepResult,
+  ctx: DesignContext,
+  topN: number = 25,
+  cache?: CandidateCache,
+): SweepResult {
+  const bounds = optimizerBounds(grid);
+  const runs = optimizerSeeds(grid).map((seed) =>
+    optimizeSeed(spec, seed, bounds, ctx, cache),
+  );
+  return mergeOptimization(spec, grid, { bounds, runs }, topN);
+}
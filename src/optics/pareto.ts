@@ -0,0 +1,163 @@
+// src/optics/pareto.ts
+import type { Candidate } from "./types";
+
+export type ParetoObjectiveKey =
+  | "usableLightEfficiency"
+  | "wfeRmsEdge"
+  | "obstructionRatio"
+  | "tubeLength"
+  | "backFocus";
+
+export type ParetoObjective = {
+  key: ParetoObjectiveKey;
+  label: string;
+  sense: "max" | "min";
+  value: (c: Candidate) => number;
+};
+
+// The raw metrics a design is compared on, each in its own units; none is
+// normalised or weighted.
+export const PARETO_OBJECTIVES: ParetoObjective[] = [
+  {
+    key: "usableLightEfficiency",
+    label: "Usable light",
+    sense: "max",
+    value: (c) => c.throughput.usableLightEfficiency,
+  },
+  {
+    key: "wfeRmsEdge",
+    label: "Edge WFE (waves RMS)",
+    sense: "min",
+    value: (c) => c.aberrations.wfeRms_waves_edge,
+  },
+  {
+    key: "obstructionRatio",
+    label: "Obstruction",
+    sense: "min",
+    value: (c) => c.geometry.obstructionRatio,
+  },
+  {
+    key: "tubeLength",
+    label: "Tube length (mm)",
+    sense: "min",
+    value: (c) => c.geometry.tubeLength_mm,
+  },
+  {
+    key: "backFocus",
+    label: "Back focus (mm)",
+    sense: "max",
+    value: (c) => c.geometry.backFocus_mm,
+  },
+];
+
+export type ParetoResult = {
+  objectives: ParetoObjectiveKey[];
+  // Rank 1 designs, best weighted score first.
+  front: Candidate[];
+};
+
+export function paretoObjective(key: ParetoObjectiveKey): ParetoObjective {
+  return PARETO_OBJECTIVES.find((o) => o.key === key) ?? PARETO_OBJECTIVES[0];
+}
+
+// Objective values turned so that smaller is better throughout. A metric
+// that did not come out finite counts as the worst possible.
+function costs(c: Candidate): number[] {
+  return PARETO_OBJECTIVES.map((o) => {
+    const v = o.value(c);
+    if (!Number.isFinite(v)) return Infinity;
+    return o.sense === "max" ? -v : v;
+  });
+}
+
+function dominates(a: number[], b: number[]): boolean {
+  let better = false;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] > b[i]) return false;
+    if (a[i] < b[i]) better = true;
+  }
+  return better;
+}
+
+// Non-dominated sorting: front 1 is dominated by nothing, front 2 only by
+// front 1, and so on.
+function sortFronts(points: number[][]): number[][] {
+  const n = points.length;
+  const dominated: number[][] = points.map(() => []);
+  const dominators = new Array<number>(n).fill(0);
+
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      if (dominates(points[i], points[j])) {
+        dominated[i].push(j);
+        dominators[j]++;
+      } else if (dominates(points[j], points[i])) {
+        dominated[j].push(i);
+        dominators[i]++;
+      }
+    }
+  }
+
+  const fronts: number[][] = [];
+  let current: number[] = [];
+  for (let i = 0; i < n; i++) if (dominators[i] === 0) current.push(i);
+
+  while (current.length > 0) {
+    fronts.push(current);
+    const next: number[] = [];
+    for (const i of current) {
+      for (const j of dominated[i]) {
+        if (--dominators[j] === 0) next.push(j);
+      }
+    }
+    current = next;
+  }
+  return fronts;
+}
+
+// Crowding distance within one front: the sum over objectives of the gap
+// between each design's neighbours, as a fraction of the front's span.
+// Designs at either end of any objective get Infinity.
+function crowding(points: number[][], front: number[], out: number[]) {
+  for (const i of front) out[i] = 0;
+  if (front.length <= 2) {
+    for (const i of front) out[i] = Infinity;
+    return;
+  }
+
+  const m = points[front[0]].length;
+  for (let k = 0; k < m; k++) {
+    const order = [...front].sort((a, b) =>
+      points[a][k] < points[b][k] ? -1 : points[a][k] > points[b][k] ? 1 : 0,
+    );
+    const lo = points[order[0]][k];
+    const hi = points[order[order.length - 1]][k];
+    out[order[0]] = Infinity;
+    out[order[order.length - 1]] = Infinity;
+
+    const span = hi - lo;
+    if (!Number.isFinite(span) || span <= 0) continue;
+    for (let t = 1; t < order.length - 1; t++) {
+      const gap = points[order[t + 1]][k] - points[order[t - 1]][k];
+      if (Number.isFinite(gap)) out[order[t]] += gap / span;
+    }
+  }
+}
+
+// Copies of `candidates`, in the same order, carrying their dominance rank
+// and crowding distance over PARETO_OBJECTIVES.
+export function rankPareto(candidates: Candidate[]): Candidate[] {
+  const points = candidates.map(costs);
+  const rank = new Array<number>(candidates.length).fill(0);
+  const distance = new Array<number>(candidates.length).fill(0);
+
+  sortFronts(points).forEach((front, f) => {
+    for (const i of front) rank[i] = f + 1;
+    crowding(points, front, distance);
+  });
+
+  return candidates.map((c, i) => ({
+    ...c,
+    pareto: { rank: rank[i], crowding: distance[i] },
+  }));
+}
@@ -0,0 +1,114 @@
+// src/optics/parts/glass.ts
+import type { DispersionFormula, GlassSpec } from "./types";
+
+export const glassCatalog: GlassSpec[] = [
+  {
+    id: "N-BK7",
+    label: "Schott N-BK7",
+    nd: 1.5168,
+    vd: 64.17,
+    dispersion: {
+      kind: "sellmeier",
+      B: [1.03961212, 0.231792344, 1.01046945],
+      C_um2: [0.00600069867, 0.0200179144, 103.560653],
+    },
+    density_g_cm3: 2.51,
+    specificHeat_J_gK: 0.858,
+  },
+  {
+    id: "fused-silica",
+    label: "Fused silica",
+    nd: 1.4585,
+    vd: 67.82,
+    dispersion: {
+      kind: "sellmeier",
+      B: [0.6961663, 0.4079426, 0.8974794],
+      C_um2: [0.00467914826, 0.0135120631, 97.9340025],
+    },
+    density_g_cm3: 2.2,
+    specificHeat_J_gK: 0.772,
+  },
+  {
+    id: "S-FPL53",
+    label: "Ohara S-FPL53",
+    nd: 1.43875,
+    vd: 94.94,
+    dispersion: {
+      kind: "sellmeier",
+      B: [0.983807148, 0.0695413142, 1.11272373],
+      C_um2: [0.00492266055, 0.0193426696, 264.613286],
+    },
+  },
+  {
+    id: "CaF2",
+    label: "Calcium fluoride",
+    nd: 1.43385,
+    vd: 95.0,
+    dispersion: {
+      kind: "sellmeier",
+      B: [0.5675888, 0.4710914, 3.8484723],
+      C_um2: [0.00252643, 0.0100783328, 1200.55597],
+    },
+    density_g_cm3: 3.18,
+    specificHeat_J_gK: 0.854,
+  },
+  {
+    id: "F2",
+    label: "Schott F2",
+    nd: 1.62004,
+    vd: 36.37,
+    dispersion: {
+      kind: "sellmeier",
+      B: [1.34533359, 0.209073176, 0.937357162],
+      C_um2: [0.00997743871, 0.0470450767, 111.886764],
+    },
+    density_g_cm3: 3.6,
+    specificHeat_J_gK: 0.557,
+  },
+  {
+    id: "SF5",
+    label: "Schott SF5",
+    nd: 1.67271,
+    vd: 32.25,
+    dispersion: {
+      kind: "sellmeier",
+      B: [1.52481889, 0.187085527, 1.42729015],
+      C_um2: [0.011254756, 0.0588995392, 129.141675],
+    },
+  },
+];
+
+const glassById = new Map<string, GlassSpec>(
+  glassCatalog.map((g) => [g.id, g]),
+);
+
+export function findGlass(id: string): GlassSpec | null {
+  return glassById.get(id) ?? null;
+}
+
+function indexFromFormula(f: DispersionFormula, wavelength_um: number): number {
+  const l2 = wavelength_um * wavelength_um;
+  if (!(l2 > 0) || !Number.isFinite(l2)) return NaN;
+
+  if (f.kind === "sellmeier") {
+    let n2 = 1;
+    for (let i = 0; i < 3; i++) {
+      n2 += (f.B[i] * l2) / (l2 - f.C_um2[i]);
+    }
+    return n2 > 0 ? Math.sqrt(n2) : NaN;
+  }
+
+  const [a0, a1, a2, a3, a4, a5] = f.A;
+  const n2 =
+    a0 +
+    a1 * l2 +
+    a2 / l2 +
+    a3 / (l2 * l2) +
+    a4 / (l2 * l2 * l2) +
+    a5 / (l2 * l2 * l2 * l2);
+  return n2 > 0 ? Math.sqrt(n2) : NaN;
+}
+
+export function glassIndex(glass: GlassSpec, wavelength_nm: number): number {
+  return indexFromFormula(glass.dispersion, wavelength_nm * 1e-3);
+}
@@ -20,3 +20,24 @@ export type PartsCatalog = {
   focusers: FocuserPart[];
   eyepieceStandards: EyepieceStandard[];
 };
+
+export type DispersionFormula =
+  | {
+    kind: "sellmeier";
+    B: [number, number, number];
+    C_um2: [number, number, number];
+  }
+  | {
+    kind: "schott";
+    A: [number, number, number, number, number, number];
+  };
+
+export type GlassSpec = {
+  id: string;
+  label: string;
+  nd: number;
+  vd: number;
+  dispersion: DispersionFormula;
+  density_g_cm3?: number;
+  specificHeat_J_gK?: number;
+};
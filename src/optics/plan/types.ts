@@ -9,12 +9,29 @@ export type Aperture = {
   kind: "circle";
   radius_mm: number;
   innerRadius_mm?: number;
+  // Circle centre in the surface's own x–y plane, for segments cut off-axis
+  // from a parent surface. Conic and asphere surfaces only.
+  offset_mm?: { x: number; y: number };
 };
 
 export type Material = {
   kind: "reflector" | "transmitter" | "absorber";
   reflectivity?: number;
   transmission?: number;
+  // Index of the medium a transmitted ray enters after this surface.
+  // Omitted means the medium is unchanged and the ray passes undeviated.
+  refractiveIndex?: number;
+  // Catalog glass id; when set, the index follows its dispersion curve.
+  glass?: string;
+};
+
+// Rigid placement of a rotationally symmetric surface: tilted about its own
+// vertex by tiltX_rad (about x), then tiltY_rad (about y), then shifted by
+// decenter_mm. Aperture and sag are measured in the tilted frame.
+export type SurfaceFrame = {
+  decenter_mm?: Vec3;
+  tiltX_rad?: number;
+  tiltY_rad?: number;
 };
 
 export type SurfaceConic = {
@@ -24,6 +41,37 @@ export type SurfaceConic = {
   R_mm: number;
   K: number;
   sagSign: -1 | 1;
+  frame?: SurfaceFrame;
+  aperture: Aperture;
+  material: Material;
+};
+
+// Sag departures over normalized coordinates (x, y) / normRadius_mm.
+// Zernike coefficients are Noll-ordered and normalized, starting at j = 1.
+export type FreeformSag =
+  | {
+    kind: "zernike";
+    normRadius_mm: number;
+    coefficients_mm: number[];
+  }
+  | {
+    kind: "xyPolynomial";
+    normRadius_mm: number;
+    terms: { xPower: number; yPower: number; coefficient_mm: number }[];
+  };
+
+// Conic base plus even terms in r^4, r^6, ... and an optional freeform
+// departure; a zero or non-finite R_mm is a flat base.
+export type SurfaceAsphere = {
+  kind: "asphere";
+  id: string;
+  z0_mm: number;
+  R_mm: number;
+  K: number;
+  coefficients: number[];
+  freeform?: FreeformSag;
+  sagSign: -1 | 1;
+  frame?: SurfaceFrame;
   aperture: Aperture;
   material: Material;
 };
@@ -37,12 +85,31 @@ export type SurfacePlane = {
   material: Material;
 };
 
-export type Surface = SurfaceConic | SurfacePlane;
+export type Surface = SurfaceConic | SurfaceAsphere | SurfacePlane;
+
+// Straight vanes holding the secondary, radiating from the pupil centre and
+// spaced evenly in angle from rotation_rad (measured from +x).
+export type SpiderVanes = {
+  count: number;
+  width_mm: number;
+  rotation_rad?: number;
+};
+
+// Incoming direction tilted by x_rad toward +x and y_rad toward +y. Weight is
+// the share of the sensor area the point stands for. Traces and results keep
+// fieldAngle_rad as the point's angle from the axis.
+export type FieldPoint = {
+  x_rad: number;
+  y_rad: number;
+  weight?: number;
+};
 
 export type EntranceSpec = {
   zStart_mm: number;
   pupilRadius_mm: number;
-  fieldAngles_rad: number[];
+  fieldPoints: FieldPoint[];
+  // Only shadows the diffraction pupil; traced rays pass the vanes.
+  spider?: SpiderVanes;
 };
 
 export type SensorSpec = {
@@ -58,13 +125,42 @@ export type OpticalPlan = {
   sensor: SensorSpec;
 };
 
+export type SpectralSample = {
+  wavelength_nm: number;
+  weight: number;
+};
+
+// Entrance pupil sampling. Densities left out are sized from
+// `SampleSpec.raysPerField`; rings and spirals span the annulus outside the
+// central obstruction.
+export type PupilSampling =
+  | { kind: "grid"; steps?: number }
+  | { kind: "hexapolar"; rings?: number }
+  | { kind: "gaussQuad"; rings?: number; arms?: number }
+  | { kind: "fibonacci" }
+  | { kind: "random"; seed?: number };
+
+// Where spots are measured: each field at its own best focus, or every field
+// on one flat sensor placed for the least field-weighted blur.
+export type FocusMode = "perField" | "common";
+
 export type SampleSpec = {
-  pupil: {
-    kind: "grid";
-    steps: number;
-  };
+  pupil: PupilSampling;
+  // Target pupil rays per field and wavelength.
   raysPerField: number;
   maxBounces: number;
+  wavelengths?: SpectralSample[];
+  // Defaults to "perField".
+  focus?: FocusMode;
+  // Sensor pixel pitch for the ensquared-energy figure.
+  pixelSize_um?: number;
+  // When set, the simulator also returns a diffraction PSF and MTF per field:
+  // pupilSamples across the pupil diameter, zero-padded by `padding` (the
+  // product must be a power of two).
+  diffraction?: {
+    pupilSamples: number;
+    padding: number;
+  };
 };
 
 export type TracePoint = Vec3;
@@ -77,6 +173,7 @@ export type TraceSegment = {
 
 export type TraceRay = {
   fieldAngle_rad: number;
+  wavelength_nm?: number;
   pupil: { x_mm: number; y_mm: number };
   segments: TraceSegment[];
   hitSensor: boolean;
@@ -87,17 +184,100 @@ export type SimulationTraces = {
   rays: TraceRay[];
 };
 
+// Wavefront at the sensor for one field, referenced to a sphere centred on
+// the spot centroid. Zernike coefficients are Noll-ordered (index 0 is Z1)
+// over the entrance pupil normalised to its radius, in waves at wavelength_nm.
+export type WavefrontResult = {
+  wavelength_nm: number;
+  zernike_waves: number[];
+  // Piston and tilt removed.
+  rms_waves: number;
+  // Piston, tilt and defocus removed: the RMS at best focus.
+  rmsFocused_waves: number;
+  pv_waves: number;
+  sampleCount: number;
+  // Image-space f-ratio of the traced bundle, 1 / (2 NA).
+  workingFRatio: number;
+};
+
 export type ImageQualityResult = {
   fieldAngle_rad: number;
+  field?: FieldPoint;
   spotRms_mm: number;
   spotRmsU_mm?: number;
   spotRmsV_mm?: number;
+  // The field's own best focus, along the sensor normal from the nominal
+  // sensor.
   bestFocusShift_mm?: number;
+  // Set in common-focus mode: the shared sensor position the spot, energy
+  // and wavefront were measured on.
+  commonFocusShift_mm?: number;
+  wavelength_nm?: number;
+  lateralColor_mm?: number;
+  longitudinalColor_mm?: number;
+  wavefront?: WavefrontResult;
+  // Geometric energy from the measured spot: radii holding 50 % and
+  // 80 % of the ray weight, and the share inside one pixel on the centroid.
+  ee50Radius_mm?: number;
+  ee80Radius_mm?: number;
+  ensquaredEnergy?: number;
+};
+
+// Sensor hit, in the sensor plane's (u, v) basis relative to the centroid.
+export type SpotPoint = {
+  u_mm: number;
+  v_mm: number;
+  wavelength_nm: number;
+  weight: number;
+};
+
+// Ray hits of one field on its best-focus plane, or on the common sensor in
+// common-focus mode. The Airy radius uses the traced working f-ratio at the
+// reference wavelength.
+export type SpotDiagram = {
+  fieldAngle_rad: number;
+  field: FieldPoint;
+  centroid_mm: { u: number; v: number };
+  points: SpotPoint[];
+  airyRadius_mm?: number;
+};
+
+// Diffraction image of one field at best focus, from the FFT of the pupil
+// function (annular obstruction and spider included, defocus removed).
+// The PSF is a square crop centred on the spot centroid, row-major
+// (index = y * size + x, x being the field direction) and scaled so an
+// unaberrated pupil of the same shape peaks at 1; its peak is therefore the
+// Strehl ratio. MTF runs from zero frequency to the incoherent cutoff
+// 1 / (wavelength * f-ratio); mtfAtNyquist reads it at the sensor Nyquist
+// frequency 1 / (2 * pixel pitch), zero past the cutoff, when the sample
+// spec gives a pixel size.
+export type DiffractionResult = {
+  fieldAngle_rad: number;
+  field: FieldPoint;
+  wavelength_nm: number;
+  strehl: number;
+  psf: {
+    size: number;
+    spacing_mm: number;
+    values: number[];
+  };
+  mtf: {
+    frequency_cyPerMm: number[];
+    tangential: number[];
+    sagittal: number[];
+  };
+  mtfAtNyquist?: {
+    frequency_cyPerMm: number;
+    tangential: number;
+    sagittal: number;
+  };
 };
 
 export type SimulationResult = {
   traces?: SimulationTraces;
   imageQuality?: ImageQualityResult[];
+  spots?: SpotDiagram[];
+  diffraction?: DiffractionResult[];
 };
 
 export interface OpticalSimulator {
@@ -1,6 +1,14 @@
 // src/optics/raytrace/adapt.ts
 import type { ImageQualityMetrics } from "../types";
-import type { ImageQualityResult } from "../plan/types";
+import type { ImageQualityResult, WavefrontResult } from "../plan/types";
+import {
+  ZERNIKE_ASTIG_OBLIQUE,
+  ZERNIKE_ASTIG_VERTICAL,
+  ZERNIKE_COMA_X,
+  ZERNIKE_COMA_Y,
+  ZERNIKE_DEFOCUS,
+  ZERNIKE_SPHERICAL,
+} from "./zernike";
 
 function finiteOr(v: number, fallback: number): number {
   return Number.isFinite(v) ? v : fallback;
@@ -10,65 +18,159 @@ function isFiniteNonNeg(v: number): boolean {
   return Number.isFinite(v) && v >= 0;
 }
 
-function isFinitePos(v: number): boolean {
-  return Number.isFinite(v) && v > 0;
+// Maréchal/Mahajan approximation.
+function strehlFromRms(rms_waves: number): number {
+  if (!isFiniteNonNeg(rms_waves)) return 0;
+  const x = 2 * Math.PI * rms_waves;
+  return Math.exp(-(x * x));
 }
 
-function airyRadiusMm(F?: number, wavelength_mm = 0.00055): number {
-  if (!isFinitePos(F as number)) return NaN;
-  return 1.22 * wavelength_mm * (F as number);
+function zernike(w: WavefrontResult, j: number): number {
+  return finiteOr(w.zernike_waves[j - 1] ?? NaN, NaN);
 }
 
-function strehlFromBlurRatio(blurOverAiry: number): number {
-  if (!isFiniteNonNeg(blurOverAiry)) return 0;
-  const x = 2 * Math.PI * blurOverAiry;
-  return Math.exp(-(x * x));
+function pairMagnitude(w: WavefrontResult, j1: number, j2: number): number {
+  return Math.hypot(zernike(w, j1), zernike(w, j2));
 }
 
-export function adaptRaytraceToMetrics(
+// Aberration terms straight from the fitted wavefronts. RMS error is taken at
+// best focus for each field; field curvature is the defocus the edge field
+// needs relative to the axis, or relative to the flat sensor when the fields
+// share a common focus.
+function wavefrontMetrics(
   edge: ImageQualityResult,
-  systemFRatio?: number,
+  edgeWavefront: WavefrontResult,
   onAxis?: ImageQualityResult,
 ): ImageQualityMetrics {
-  const airy = airyRadiusMm(systemFRatio);
+  const axisWavefront = onAxis?.wavefront;
 
-  const edge_mm = finiteOr(edge.spotRms_mm, NaN);
-  const onAxis_mm = finiteOr(onAxis?.spotRms_mm ?? NaN, NaN);
+  const edgeRms = finiteOr(edgeWavefront.rmsFocused_waves, NaN);
+  const axisRms = finiteOr(axisWavefront?.rmsFocused_waves ?? NaN, NaN);
 
-  const tan_mm = finiteOr(edge.spotRmsU_mm ?? edge_mm, edge_mm);
-  const sag_mm = finiteOr(edge.spotRmsV_mm ?? edge_mm, edge_mm);
+  const wfe =
+    Number.isFinite(edgeRms) && Number.isFinite(axisRms)
+      ? Math.max(edgeRms, axisRms)
+      : Number.isFinite(edgeRms)
+        ? edgeRms
+        : axisRms;
 
-  const edgeWaves =
-    isFiniteNonNeg(edge_mm) && isFinitePos(airy) ? edge_mm / airy : NaN;
+  const edgeDefocus = zernike(edgeWavefront, ZERNIKE_DEFOCUS);
+  const axisDefocus = axisWavefront
+    ? zernike(axisWavefront, ZERNIKE_DEFOCUS)
+    : 0;
 
-  const onAxisWaves =
-    isFiniteNonNeg(onAxis_mm) && isFinitePos(airy) ? onAxis_mm / airy : NaN;
+  return {
+    fieldAngle_rad: finiteOr(edge.fieldAngle_rad, 0),
 
-  const tan = isFiniteNonNeg(tan_mm) && isFinitePos(airy) ? tan_mm / airy : NaN;
+    coma_wfeRms_waves_edge: pairMagnitude(
+      edgeWavefront,
+      ZERNIKE_COMA_Y,
+      ZERNIKE_COMA_X,
+    ),
+    astig_wfeRms_waves_edge: pairMagnitude(
+      edgeWavefront,
+      ZERNIKE_ASTIG_OBLIQUE,
+      ZERNIKE_ASTIG_VERTICAL,
+    ),
+    fieldCurvature_wfeRms_waves_edge:
+      edge.commonFocusShift_mm !== undefined
+        ? Math.abs(edgeDefocus)
+        : Math.abs(edgeDefocus - axisDefocus),
+    spherical_wfeRms_waves_edge: Math.abs(
+      zernike(axisWavefront ?? edgeWavefront, ZERNIKE_SPHERICAL),
+    ),
 
-  const sag = isFiniteNonNeg(sag_mm) && isFinitePos(airy) ? sag_mm / airy : NaN;
+    wfeRms_waves_edge: finiteOr(wfe, NaN),
+    strehl: strehlFromRms(edgeRms),
 
-  const astig =
-    Number.isFinite(tan) && Number.isFinite(sag) ? Math.abs(tan - sag) : NaN;
+    lateralColor_mm_edge: finiteOr(edge.lateralColor_mm ?? NaN, NaN),
+    longitudinalColor_mm: longitudinalColor(edge, onAxis),
+  };
+}
 
-  const fieldCurv = finiteOr(Math.abs(edge.bestFocusShift_mm ?? NaN), NaN);
+function longitudinalColor(
+  edge: ImageQualityResult,
+  onAxis?: ImageQualityResult,
+): number {
+  const longEdge = finiteOr(edge.longitudinalColor_mm ?? NaN, NaN);
+  const longAxis = finiteOr(onAxis?.longitudinalColor_mm ?? NaN, NaN);
+
+  return Number.isFinite(longEdge) && Number.isFinite(longAxis)
+    ? Math.max(longEdge, longAxis)
+    : Number.isFinite(longEdge)
+      ? longEdge
+      : longAxis;
+}
 
-  const wfe =
-    Number.isFinite(edgeWaves) && Number.isFinite(onAxisWaves)
-      ? Math.max(edgeWaves, onAxisWaves)
-      : Number.isFinite(edgeWaves)
-        ? edgeWaves
-        : onAxisWaves;
+// Without a wavefront fit, too few rays reached the sensor, and spot sizes
+// are on no scale comparable to a fitted RMS; the wave terms are left NaN so
+// the design ranks as unmeasured rather than as a made-up number of waves.
+export function adaptRaytraceToMetrics(
+  edge: ImageQualityResult,
+  onAxis?: ImageQualityResult,
+): ImageQualityMetrics {
+  if (edge.wavefront) return wavefrontMetrics(edge, edge.wavefront, onAxis);
 
   return {
     fieldAngle_rad: finiteOr(edge.fieldAngle_rad, 0),
 
-    coma_wfeRms_waves_edge: edgeWaves,
-    astig_wfeRms_waves_edge: astig,
-    fieldCurvature_wfeRms_waves_edge: fieldCurv,
-    spherical_wfeRms_waves_edge: onAxisWaves,
+    coma_wfeRms_waves_edge: NaN,
+    astig_wfeRms_waves_edge: NaN,
+    fieldCurvature_wfeRms_waves_edge: NaN,
+    spherical_wfeRms_waves_edge: NaN,
 
-    wfeRms_waves_edge: finiteOr(wfe, NaN),
-    strehl: strehlFromBlurRatio(edgeWaves),
+    wfeRms_waves_edge: NaN,
+    strehl: NaN,
+
+    lateralColor_mm_edge: finiteOr(edge.lateralColor_mm ?? NaN, NaN),
+    longitudinalColor_mm: longitudinalColor(edge, onAxis),
+  };
+}
+
+// RMS error of one field at its own focus, in waves; NaN when there is no
+// wavefront fit.
+function fieldWfe(q: ImageQualityResult): number {
+  return finiteOr(q.wavefront?.rmsFocused_waves ?? NaN, NaN);
+}
+
+// Metrics over a whole field grid ordered from the axis outward: the edge
+// terms come from the outermost point against the innermost, and the worst
+// and area-weighted mean WFE and Strehl from every point.
+export function adaptRaytraceFieldsToMetrics(
+  fields: ImageQualityResult[],
+): ImageQualityMetrics {
+  const base = adaptRaytraceToMetrics(fields[fields.length - 1], fields[0]);
+
+  let worstWfe = NaN;
+  let worstStrehl = NaN;
+  let sw = 0;
+  let sWfe = 0;
+  let sStrehl = 0;
+
+  for (const q of fields) {
+    const wfe = fieldWfe(q);
+    if (!Number.isFinite(wfe)) continue;
+
+    const strehl = strehlFromRms(wfe);
+    const w = q.field?.weight ?? 1;
+
+    worstWfe = Number.isFinite(worstWfe) ? Math.max(worstWfe, wfe) : wfe;
+    worstStrehl = Number.isFinite(worstStrehl)
+      ? Math.min(worstStrehl, strehl)
+      : strehl;
+
+    if (w > 0) {
+      sw += w;
+      sWfe += w * wfe;
+      sStrehl += w * strehl;
+    }
+  }
+
+  return {
+    ...base,
+    wfeRms_waves_worst: worstWfe,
+    wfeRms_waves_mean: sw > 0 ? sWfe / sw : NaN,
+    strehl_worst: worstStrehl,
+    strehl_mean: sw > 0 ? sStrehl / sw : NaN,
   };
 }
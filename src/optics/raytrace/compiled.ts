@@ -0,0 +1,145 @@
+// src/optics/raytrace/compiled.ts
+import type {
+  OpticalPlan,
+  Surface,
+  SurfaceAsphere,
+  SurfaceConic,
+  SurfacePlane,
+  Vec3 as PlanVec3,
+} from "../plan/types";
+import type { ConicSurface, PlaneSurface, Ray, Vec3 } from "./types";
+import { normalize } from "./math";
+import { intersectConic, intersectPlane, surfaceNormalConic } from "./trace";
+import { rigidFrame } from "./frame";
+import { conicConstants } from "./surface";
+import { findGlass, glassIndex } from "../parts/glass";
+import type { GlassSpec } from "../parts/types";
+
+// A surface in tracer form: frame, conic constants and unit normal worked out
+// once, and the glass resolved from the catalogue.
+export type CompiledSurface =
+  | {
+      id: string;
+      kind: "conic";
+      material: Surface["material"];
+      glass: GlassSpec | null;
+      s: ConicSurface;
+    }
+  | {
+      id: string;
+      kind: "plane";
+      material: Surface["material"];
+      glass: GlassSpec | null;
+      s: PlaneSurface;
+    };
+
+export type CompiledPlane = Extract<CompiledSurface, { kind: "plane" }>;
+
+// Everything the tracer needs from a plan except the sensor, which moves
+// during focusing and is compiled on its own.
+export type CompiledPlan = {
+  plan: OpticalPlan;
+  surfaces: CompiledSurface[];
+  dispersive: boolean;
+};
+
+function toRayVec3(p: PlanVec3): Vec3 {
+  return { x: p.x, y: p.y, z: p.z };
+}
+
+function toConicSurface(s: SurfaceConic | SurfaceAsphere): ConicSurface {
+  const surface: ConicSurface = {
+    z0: s.z0_mm,
+    R: s.R_mm,
+    K: s.K,
+    sagSign: s.sagSign,
+    asphere: s.kind === "asphere" ? s.coefficients : undefined,
+    freeform: s.kind === "asphere" ? s.freeform : undefined,
+    frame: rigidFrame(s.z0_mm, s.frame),
+    apertureRadius: s.aperture.radius_mm,
+    innerApertureRadius: s.aperture.innerRadius_mm,
+    apertureOffset: s.aperture.offset_mm,
+  };
+  return { ...surface, constants: conicConstants(surface) };
+}
+
+function toPlaneSurface(s: SurfacePlane): PlaneSurface {
+  return {
+    p0: toRayVec3(s.p0_mm),
+    nHat: normalize(toRayVec3(s.nHat)),
+    unitNormal: true,
+    apertureRadius: s.aperture.radius_mm,
+    innerApertureRadius: s.aperture.innerRadius_mm,
+  };
+}
+
+function resolveGlass(material: Surface["material"]): GlassSpec | null {
+  return material.glass ? findGlass(material.glass) : null;
+}
+
+export function compileSurface(s: Surface): CompiledSurface {
+  const glass = resolveGlass(s.material);
+  return s.kind !== "plane"
+    ? {
+        id: s.id,
+        kind: "conic",
+        material: s.material,
+        glass,
+        s: toConicSurface(s),
+      }
+    : {
+        id: s.id,
+        kind: "plane",
+        material: s.material,
+        glass,
+        s: toPlaneSurface(s),
+      };
+}
+
+export function compileSensor(
+  plan: OpticalPlan,
+  sensorPlane: SurfacePlane,
+): CompiledPlane {
+  return {
+    id: plan.sensor.id,
+    kind: "plane",
+    material: sensorPlane.material,
+    glass: null,
+    s: toPlaneSurface(sensorPlane),
+  };
+}
+
+export function compilePlan(plan: OpticalPlan): CompiledPlan {
+  const surfaces = plan.surfaces.map(compileSurface);
+  return {
+    plan,
+    surfaces,
+    dispersive: surfaces.some(
+      (s) => s.material.kind === "transmitter" && !!s.glass,
+    ),
+  };
+}
+
+export function intersectCompiled(
+  cs: CompiledSurface,
+  ray: Ray,
+): { t: number; p: Vec3 } | null {
+  return cs.kind === "conic"
+    ? intersectConic(cs.s, ray)
+    : intersectPlane(cs.s, ray);
+}
+
+export function compiledNormal(cs: CompiledSurface, p: Vec3): Vec3 {
+  return cs.kind === "conic" ? surfaceNormalConic(cs.s, p) : cs.s.nHat;
+}
+
+// Index beyond the surface; a surface without glass or index keeps the
+// current medium.
+export function compiledIndex(
+  cs: CompiledSurface,
+  wavelength_nm: number,
+  current: number,
+): number {
+  if (cs.glass) return glassIndex(cs.glass, wavelength_nm);
+  return cs.material.refractiveIndex ?? current;
+}
@@ -4,11 +4,14 @@ import type {
   OpticalSimulator,
   Surface,
   SurfaceConic,
+  SurfaceAsphere,
   SurfacePlane,
   TraceSegment,
   Vec3,
   SampleSpec,
 } from "../plan/types";
+import { freeformSag } from "./freeform";
+import { rigidFrame, toGlobalPoint } from "./frame";
 
 function finiteOr(v: number, fallback: number): number {
   return Number.isFinite(v) ? v : fallback;
@@ -140,26 +143,50 @@ function sagConicUnsigned(r: number, R: number, K: number): number {
 
   const s = Math.sqrt(inside);
 
-  const absR = Math.abs(R);
-  const denom = absR * (1 + s);
+  const denom = R * (1 + s);
   if (!Number.isFinite(denom) || denom === 0) return NaN;
 
   return (r * r) / denom;
 }
 
-function sampleConicXZ(surface: SurfaceConic, samples: number): Vec3[] {
+function sagSurface(
+  surface: SurfaceConic | SurfaceAsphere,
+  x: number,
+): number {
+  const r = Math.abs(x);
+  if (surface.kind === "conic") {
+    return sagConicUnsigned(r, surface.R_mm, surface.K);
+  }
+
+  const flat = surface.R_mm === 0 || !Number.isFinite(surface.R_mm);
+  let s = flat ? 0 : sagConicUnsigned(r, surface.R_mm, surface.K);
+  const r2 = r * r;
+  let rp = r2 * r2;
+  for (const c of surface.coefficients) {
+    s += c * rp;
+    rp *= r2;
+  }
+  if (surface.freeform) s += freeformSag(surface.freeform, x, 0);
+  return s;
+}
+
+function sampleConicXZ(
+  surface: SurfaceConic | SurfaceAsphere,
+  samples: number,
+): Vec3[] {
   const pts: Vec3[] = [];
   const rA = surface.aperture.radius_mm;
+  const xC = surface.aperture.offset_mm?.x ?? 0;
   const n = Math.max(2, samples | 0);
+  const frame = rigidFrame(surface.z0_mm, surface.frame);
 
   for (let i = 0; i < n; i++) {
     const t = n === 1 ? 0 : i / (n - 1);
-    const x = (t * 2 - 1) * rA;
-    const r = Math.abs(x);
-    const s = sagConicUnsigned(r, surface.R_mm, surface.K);
+    const x = xC + (t * 2 - 1) * rA;
+    const s = sagSurface(surface, x);
     if (!Number.isFinite(s)) continue;
-    const z = surface.z0_mm + surface.sagSign * s;
-    pts.push({ x, y: 0, z });
+    const z = surface.z0_mm + s;
+    pts.push(frame ? toGlobalPoint(frame, { x, y: 0, z }) : { x, y: 0, z });
   }
 
   return pts;
@@ -278,7 +305,7 @@ export function renderPlanCrossSectionSvg(
   const surfacePolylines: { id: string; pts: Vec3[] }[] = [];
 
   for (const s of plan.surfaces) {
-    if (s.kind === "conic") {
+    if (s.kind !== "plane") {
       const pts = sampleConicXZ(s, surfaceSamples);
       surfacePolylines.push({ id: s.id, pts });
       allPts.push(...pts);
@@ -342,6 +369,97 @@ export function renderPlanCrossSectionSvg(
   );
 }
 
+// Hue from red (700 nm) to violet (400 nm) for spot points.
+function wavelengthColor(wavelength_nm: number): string {
+  const t = Math.min(1, Math.max(0, (700 - wavelength_nm) / 300));
+  return `hsl(${(270 * t).toFixed(0)},85%,45%)`;
+}
+
+// One square panel per field: the best-focus hit cloud coloured by
+// wavelength, the Airy disk (dashed) and, if a pixel size is given, one pixel.
+export function renderSpotDiagramSvg(
+  plan: OpticalPlan,
+  simulator: OpticalSimulator,
+  sampleSpec: SampleSpec,
+  opts?: {
+    panelSize?: number;
+    pad?: number;
+  },
+): string {
+  const panel = finiteOr(opts?.panelSize ?? 260, 260);
+  const pad = finiteOr(opts?.pad ?? 24, 24);
+
+  const sim = simulator.simulate(plan, sampleSpec);
+  const spots = sim.spots ?? [];
+  const iq = sim.imageQuality ?? [];
+  const pixel_mm = (sampleSpec.pixelSize_um ?? NaN) * 1e-3;
+
+  const width = Math.max(1, spots.length) * panel;
+  const height = panel + 2 * pad;
+
+  const panels = spots
+    .map((spot, i) => {
+      const quality = iq[i];
+      const airy = spot.airyRadius_mm ?? NaN;
+
+      let extent = 0;
+      for (const p of spot.points) {
+        extent = vMax(extent, vMax(Math.abs(p.u_mm), Math.abs(p.v_mm)));
+      }
+      if (Number.isFinite(airy)) extent = vMax(extent, airy);
+      if (pixel_mm > 0) extent = vMax(extent, 0.5 * pixel_mm);
+      if (!(extent > 0)) extent = 1e-3;
+      extent *= 1.15;
+
+      const cx = i * panel + 0.5 * panel;
+      const cy = pad + 0.5 * panel;
+      const k = (0.5 * panel - pad) / extent;
+
+      const dots = spot.points
+        .map(
+          (p) =>
+            `<circle cx="${(cx + k * p.u_mm).toFixed(2)}" cy="${(cy - k * p.v_mm).toFixed(2)}" r="1.6" fill="${wavelengthColor(p.wavelength_nm)}" />`,
+        )
+        .join("\n");
+
+      const airyCircle = Number.isFinite(airy)
+        ? `<circle cx="${cx}" cy="${cy}" r="${(k * airy).toFixed(2)}" fill="none" stroke="#333" stroke-dasharray="4 3" />`
+        : "";
+
+      const pixelBox =
+        pixel_mm > 0
+          ? `<rect x="${(cx - 0.5 * k * pixel_mm).toFixed(2)}" y="${(cy - 0.5 * k * pixel_mm).toFixed(2)}" width="${(k * pixel_mm).toFixed(2)}" height="${(k * pixel_mm).toFixed(2)}" fill="none" stroke="#bbb" />`
+          : "";
+
+      const um = (mm: number | undefined) =>
+        Number.isFinite(mm) ? ((mm as number) * 1000).toFixed(1) : "-";
+      const deg = (rad: number) => ((rad * 180) / Math.PI).toFixed(3);
+      const fieldDeg = `(${deg(spot.field.x_rad)}, ${deg(spot.field.y_rad)})`;
+
+      return `<g>
+    <rect x="${i * panel + 4}" y="4" width="${panel - 8}" height="${height - 8}" fill="none" stroke="#ddd" />
+    <line x1="${cx - 0.5 * panel + pad}" y1="${cy}" x2="${cx + 0.5 * panel - pad}" y2="${cy}" stroke="#eee" />
+    <line x1="${cx}" y1="${cy - 0.5 * panel + pad}" x2="${cx}" y2="${cy + 0.5 * panel - pad}" stroke="#eee" />
+    ${pixelBox}
+    ${airyCircle}
+    ${dots}
+    <text x="${i * panel + 12}" y="20" font-family="monospace" font-size="11">field ${fieldDeg}°  ±${um(extent)} µm</text>
+    <text x="${i * panel + 12}" y="${height - 12}" font-family="monospace" font-size="11">rms ${um(quality?.spotRms_mm)}  EE80 r ${um(quality?.ee80Radius_mm)}  Airy r ${um(airy)} µm</text>
+  </g>`;
+    })
+    .join("\n");
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<svg xmlns="http://www.w3.org/2000/svg"
+     width="${width}"
+     height="${height}"
+     viewBox="0 0 ${width} ${height}"
+     style="display:block;">
+  <rect x="0" y="0" width="${width}" height="${height}" fill="white" />
+  ${panels}
+</svg>`;
+}
+
 export function renderPlanCrossSectionHtml(
   plan: OpticalPlan,
   simulator: OpticalSimulator,
@@ -0,0 +1,172 @@
+// src/optics/raytrace/diffraction.ts
+import type {
+  DiffractionResult,
+  FieldPoint,
+  OpticalPlan,
+  SampleSpec,
+  SpiderVanes,
+  WavefrontResult,
+} from "../plan/types";
+import {
+  DIFFRACTION_MASK_SUPERSAMPLE,
+  DIFFRACTION_PSF_SIZE,
+} from "../constants";
+import { fft2d, isPowerOfTwo } from "./fft";
+import { obstructionFraction } from "./pupil";
+import { ZERNIKE_DEFOCUS, zernikeNoll } from "./zernike";
+
+function onVane(x_mm: number, y_mm: number, spider: SpiderVanes): boolean {
+  const half = 0.5 * spider.width_mm;
+  for (let k = 0; k < spider.count; k++) {
+    const a = (spider.rotation_rad ?? 0) + (2 * Math.PI * k) / spider.count;
+    const along = x_mm * Math.cos(a) + y_mm * Math.sin(a);
+    const across = -x_mm * Math.sin(a) + y_mm * Math.cos(a);
+    if (along >= -half && Math.abs(across) <= half) return true;
+  }
+  return false;
+}
+
+// Open fraction of the pupil cell centred on (u, v), of edge `cell`, in
+// normalised pupil coordinates.
+function cellTransmission(
+  u: number,
+  v: number,
+  cell: number,
+  eps: number,
+  plan: OpticalPlan,
+): number {
+  const r = plan.entrance.pupilRadius_mm;
+  const spider = plan.entrance.spider;
+  const m = DIFFRACTION_MASK_SUPERSAMPLE;
+
+  let open = 0;
+  for (let j = 0; j < m; j++) {
+    for (let i = 0; i < m; i++) {
+      const su = u + ((i + 0.5) / m - 0.5) * cell;
+      const sv = v + ((j + 0.5) / m - 0.5) * cell;
+      const rho = Math.hypot(su, sv);
+      if (rho > 1 || rho < eps) continue;
+      if (spider && spider.count > 0 && onVane(su * r, sv * r, spider)) {
+        continue;
+      }
+      open++;
+    }
+  }
+  return open / (m * m);
+}
+
+// Wavefront beyond defocus, in waves: the image a focuser would settle on.
+function aberration(wavefront: WavefrontResult, u: number, v: number): number {
+  const rho = Math.hypot(u, v);
+  const theta = Math.atan2(v, u);
+  let w = 0;
+  wavefront.zernike_waves.forEach((c, i) => {
+    if (i >= ZERNIKE_DEFOCUS) w += c * zernikeNoll(i + 1, rho, theta);
+  });
+  return w;
+}
+
+// Linear interpolation of an MTF curve; zero beyond its last frequency.
+function mtfAt(frequencies: number[], values: number[], f: number): number {
+  for (let k = 1; k < frequencies.length; k++) {
+    if (f <= frequencies[k]) {
+      const t =
+        (f - frequencies[k - 1]) / (frequencies[k] - frequencies[k - 1]);
+      return values[k - 1] + t * (values[k] - values[k - 1]);
+    }
+  }
+  return 0;
+}
+
+export function diffractionForField(
+  plan: OpticalPlan,
+  fieldAngle_rad: number,
+  field: FieldPoint,
+  wavefront: WavefrontResult,
+  settings: NonNullable<SampleSpec["diffraction"]>,
+  pixel_mm?: number,
+): DiffractionResult | undefined {
+  const np = Math.round(settings.pupilSamples);
+  const n = np * Math.round(settings.padding);
+  if (!(np > 0) || !isPowerOfTwo(n) || n < 2 * np) return undefined;
+  if (!(plan.entrance.pupilRadius_mm > 0)) return undefined;
+  if (!(wavefront.workingFRatio > 0)) return undefined;
+
+  const eps = obstructionFraction(plan);
+  const cell = 2 / np;
+
+  const re = new Float64Array(n * n);
+  const im = new Float64Array(n * n);
+  let amplitudeSum = 0;
+
+  for (let iy = 0; iy < np; iy++) {
+    for (let ix = 0; ix < np; ix++) {
+      const u = -1 + (ix + 0.5) * cell;
+      const v = -1 + (iy + 0.5) * cell;
+      const a = cellTransmission(u, v, cell, eps, plan);
+      if (a === 0) continue;
+
+      const phase = 2 * Math.PI * aberration(wavefront, u, v);
+      re[iy * n + ix] = a * Math.cos(phase);
+      im[iy * n + ix] = a * Math.sin(phase);
+      amplitudeSum += a;
+    }
+  }
+  if (!(amplitudeSum > 0)) return undefined;
+
+  fft2d(re, im, n);
+
+  // The unaberrated peak is the squared sum of the pupil amplitudes.
+  const peak = amplitudeSum * amplitudeSum;
+  for (let k = 0; k < n * n; k++) {
+    re[k] = (re[k] * re[k] + im[k] * im[k]) / peak;
+    im[k] = 0;
+  }
+
+  const size = Math.min(DIFFRACTION_PSF_SIZE, n);
+  const values: number[] = [];
+  let strehl = 0;
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const gx = (x - size / 2 + n) % n;
+      const gy = (y - size / 2 + n) % n;
+      const value = re[gy * n + gx];
+      values.push(value);
+      strehl = Math.max(strehl, value);
+    }
+  }
+
+  const wavelength_mm = wavefront.wavelength_nm * 1e-6;
+  const spacing_mm = (wavelength_mm * wavefront.workingFRatio * np) / n;
+
+  // The PSF is real, so its transform gives the OTF directly.
+  fft2d(re, im, n);
+  const dc = Math.hypot(re[0], im[0]);
+
+  const frequency_cyPerMm: number[] = [];
+  const tangential: number[] = [];
+  const sagittal: number[] = [];
+  for (let k = 0; k <= np; k++) {
+    frequency_cyPerMm.push(k / (n * spacing_mm));
+    tangential.push(Math.hypot(re[k], im[k]) / dc);
+    sagittal.push(Math.hypot(re[k * n], im[k * n]) / dc);
+  }
+
+  const result: DiffractionResult = {
+    fieldAngle_rad,
+    field,
+    wavelength_nm: wavefront.wavelength_nm,
+    strehl,
+    psf: { size, spacing_mm, values },
+    mtf: { frequency_cyPerMm, tangential, sagittal },
+  };
+  if (pixel_mm !== undefined && pixel_mm > 0) {
+    const nyquist = 1 / (2 * pixel_mm);
+    result.mtfAtNyquist = {
+      frequency_cyPerMm: nyquist,
+      tangential: mtfAt(frequency_cyPerMm, tangential, nyquist),
+      sagittal: mtfAt(frequency_cyPerMm, sagittal, nyquist),
+    };
+  }
+  return result;
+}
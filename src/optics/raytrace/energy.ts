@@ -0,0 +1,42 @@
+// src/optics/raytrace/energy.ts
+import type { SpotPoint } from "../plan/types";
+
+function totalWeight(points: SpotPoint[]): number {
+  return points.reduce((a, p) => a + p.weight, 0);
+}
+
+// Smallest radius about the centroid holding `fraction` of the ray weight.
+export function encircledEnergyRadius(
+  points: SpotPoint[],
+  fraction: number,
+): number {
+  const total = totalWeight(points);
+  if (!(total > 0)) return NaN;
+
+  const byRadius = points
+    .map((p) => ({ r: Math.hypot(p.u_mm, p.v_mm), w: p.weight }))
+    .sort((a, b) => a.r - b.r);
+
+  let acc = 0;
+  for (const p of byRadius) {
+    acc += p.w;
+    if (acc >= fraction * total) return p.r;
+  }
+  return byRadius[byRadius.length - 1].r;
+}
+
+// Share of the ray weight inside a square pixel of side pixel_mm centred on
+// the centroid.
+export function ensquaredEnergy(points: SpotPoint[], pixel_mm: number): number {
+  const total = totalWeight(points);
+  if (!(total > 0) || !(pixel_mm > 0)) return NaN;
+
+  const half = 0.5 * pixel_mm;
+  let inside = 0;
+  for (const p of points) {
+    if (Math.abs(p.u_mm) <= half && Math.abs(p.v_mm) <= half) {
+      inside += p.weight;
+    }
+  }
+  return inside / total;
+}
@@ -0,0 +1,63 @@
+// src/optics/raytrace/fft.ts
+
+export function isPowerOfTwo(n: number): boolean {
+  return Number.isInteger(n) && n > 0 && (n & (n - 1)) === 0;
+}
+
+// In-place radix-2 transform of n complex values read with the given offset
+// and stride; `inverse` flips the exponent sign without scaling.
+function fftStrided(
+  re: Float64Array,
+  im: Float64Array,
+  n: number,
+  offset: number,
+  stride: number,
+  inverse: boolean,
+): void {
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      const a = offset + i * stride;
+      const b = offset + j * stride;
+      [re[a], re[b]] = [re[b], re[a]];
+      [im[a], im[b]] = [im[b], im[a]];
+    }
+  }
+
+  for (let len = 2; len <= n; len <<= 1) {
+    const ang = ((inverse ? 2 : -2) * Math.PI) / len;
+    const wr = Math.cos(ang);
+    const wi = Math.sin(ang);
+    for (let i = 0; i < n; i += len) {
+      let cr = 1;
+      let ci = 0;
+      for (let k = 0; k < len / 2; k++) {
+        const a = offset + (i + k) * stride;
+        const b = offset + (i + k + len / 2) * stride;
+        const tr = re[b] * cr - im[b] * ci;
+        const ti = re[b] * ci + im[b] * cr;
+        re[b] = re[a] - tr;
+        im[b] = im[a] - ti;
+        re[a] += tr;
+        im[a] += ti;
+        const nr = cr * wr - ci * wi;
+        ci = cr * wi + ci * wr;
+        cr = nr;
+      }
+    }
+  }
+}
+
+// In-place 2-D transform of an n x n row-major array; n must be a power of
+// two.
+export function fft2d(
+  re: Float64Array,
+  im: Float64Array,
+  n: number,
+  inverse = false,
+): void {
+  for (let row = 0; row < n; row++) fftStrided(re, im, n, row * n, 1, inverse);
+  for (let col = 0; col < n; col++) fftStrided(re, im, n, col, n, inverse);
+}
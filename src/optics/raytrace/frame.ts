@@ -0,0 +1,56 @@
+// src/optics/raytrace/frame.ts
+import type { SurfaceFrame } from "../plan/types";
+import type { RigidFrame, Vec3 } from "./types";
+import { add, dot, mul, sub, v3 } from "./math";
+
+// R = Ry(tiltY)·Rx(tiltX); ex, ey, ez are its columns. Returns undefined for
+// an untilted, undecentered surface so the tracer can skip the transform.
+export function rigidFrame(
+  z0: number,
+  frame: SurfaceFrame | undefined,
+): RigidFrame | undefined {
+  if (!frame) return undefined;
+
+  const a = frame.tiltX_rad ?? 0;
+  const b = frame.tiltY_rad ?? 0;
+  const decenter = frame.decenter_mm ?? v3(0, 0, 0);
+  if (
+    a === 0 &&
+    b === 0 &&
+    decenter.x === 0 &&
+    decenter.y === 0 &&
+    decenter.z === 0
+  ) {
+    return undefined;
+  }
+
+  const ca = Math.cos(a);
+  const sa = Math.sin(a);
+  const cb = Math.cos(b);
+  const sb = Math.sin(b);
+
+  return {
+    pivot: v3(0, 0, z0),
+    decenter: { ...decenter },
+    ex: v3(cb, 0, -sb),
+    ey: v3(sb * sa, ca, cb * sa),
+    ez: v3(sb * ca, -sa, cb * ca),
+  };
+}
+
+export function toLocalDir(f: RigidFrame, d: Vec3): Vec3 {
+  return v3(dot(f.ex, d), dot(f.ey, d), dot(f.ez, d));
+}
+
+export function toGlobalDir(f: RigidFrame, d: Vec3): Vec3 {
+  return add(add(mul(f.ex, d.x), mul(f.ey, d.y)), mul(f.ez, d.z));
+}
+
+export function toLocalPoint(f: RigidFrame, p: Vec3): Vec3 {
+  const q = toLocalDir(f, sub(sub(p, f.pivot), f.decenter));
+  return add(f.pivot, q);
+}
+
+export function toGlobalPoint(f: RigidFrame, p: Vec3): Vec3 {
+  return add(add(f.pivot, f.decenter), toGlobalDir(f, sub(p, f.pivot)));
+}
@@ -0,0 +1,57 @@
+// src/optics/raytrace/freeform.ts
+import type { FreeformSag } from "../plan/types";
+import { zernikeNoll, zernikeNollGradient } from "./zernike";
+
+export function freeformSag(f: FreeformSag, x: number, y: number): number {
+  const R0 = f.normRadius_mm;
+  if (!(R0 > 0)) return 0;
+  const u = x / R0;
+  const v = y / R0;
+
+  let s = 0;
+  if (f.kind === "zernike") {
+    const rho = Math.hypot(u, v);
+    const theta = Math.atan2(v, u);
+    f.coefficients_mm.forEach((c, i) => {
+      if (c !== 0) s += c * zernikeNoll(i + 1, rho, theta);
+    });
+  } else {
+    for (const t of f.terms) {
+      s += t.coefficient_mm * Math.pow(u, t.xPower) * Math.pow(v, t.yPower);
+    }
+  }
+  return s;
+}
+
+export function freeformGradient(
+  f: FreeformSag,
+  x: number,
+  y: number,
+): { dx: number; dy: number } {
+  const R0 = f.normRadius_mm;
+  if (!(R0 > 0)) return { dx: 0, dy: 0 };
+  const u = x / R0;
+  const v = y / R0;
+
+  let du = 0;
+  let dv = 0;
+  if (f.kind === "zernike") {
+    f.coefficients_mm.forEach((c, i) => {
+      if (c === 0) return;
+      const g = zernikeNollGradient(i + 1, u, v);
+      du += c * g.du;
+      dv += c * g.dv;
+    });
+  } else {
+    for (const t of f.terms) {
+      const c = t.coefficient_mm;
+      if (t.xPower > 0) {
+        du += c * t.xPower * Math.pow(u, t.xPower - 1) * Math.pow(v, t.yPower);
+      }
+      if (t.yPower > 0) {
+        dv += c * t.yPower * Math.pow(u, t.xPower) * Math.pow(v, t.yPower - 1);
+      }
+    }
+  }
+  return { dx: du / R0, dy: dv / R0 };
+}
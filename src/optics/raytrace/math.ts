@@ -46,3 +46,31 @@ export function planeBasis(nHatIn: Vec3): { u: Vec3; v: Vec3; n: Vec3 } {
   const v = normalize(cross(n, u));
   return { u, v, n };
 }
+
+export function solveLinear(A: number[][], b: number[]): number[] | null {
+  const n = b.length;
+  const M = A.map((row, i) => [...row, b[i]]);
+
+  for (let c = 0; c < n; c++) {
+    let pivot = c;
+    for (let r = c + 1; r < n; r++) {
+      if (Math.abs(M[r][c]) > Math.abs(M[pivot][c])) pivot = r;
+    }
+    if (!(Math.abs(M[pivot][c]) > 1e-300)) return null;
+    [M[c], M[pivot]] = [M[pivot], M[c]];
+
+    for (let r = c + 1; r < n; r++) {
+      const f = M[r][c] / M[c][c];
+      for (let k = c; k <= n; k++) M[r][k] -= f * M[c][k];
+    }
+  }
+
+  const x = new Array<number>(n).fill(0);
+  for (let r = n - 1; r >= 0; r--) {
+    let s = M[r][n];
+    for (let k = r + 1; k < n; k++) s -= M[r][k] * x[k];
+    x[r] = s / M[r][r];
+  }
+
+  return x.every(Number.isFinite) ? x : null;
+}
@@ -0,0 +1,226 @@
+// src/optics/raytrace/pupil.ts
+import type { OpticalPlan, SampleSpec } from "../plan/types";
+
+// Entrance pupil point in mm with its share of the open pupil area; weights
+// sum to one.
+export type PupilPoint = { x: number; y: number; weight: number };
+
+const GOLDEN_ANGLE = Math.PI * (3 - Math.sqrt(5));
+
+// Largest central hole among the centred apertures, as a fraction of the
+// entrance pupil radius. A hole as wide as the pupil is a stop around the
+// beam rather than an obstruction in it.
+export function obstructionFraction(plan: OpticalPlan): number {
+  const r = plan.entrance.pupilRadius_mm;
+  if (!(r > 0)) return 0;
+  let inner = 0;
+  for (const s of plan.surfaces) {
+    if (s.aperture.offset_mm) continue;
+    const hole = s.aperture.innerRadius_mm ?? 0;
+    if (hole < r) inner = Math.max(inner, hole);
+  }
+  return Math.min(1, inner / r);
+}
+
+function normalizeWeights(points: PupilPoint[]): PupilPoint[] {
+  const total = points.reduce((a, p) => a + p.weight, 0);
+  return total > 0
+    ? points.map((p) => ({ ...p, weight: p.weight / total }))
+    : points;
+}
+
+// Steps across a square grid: the spec's own, or enough that the points
+// inside the annulus of obstruction fraction `eps` number about
+// `raysPerField`. With n steps the points sit 2 / (n - 1) apart, each
+// standing for that square of the open area pi * (1 - eps^2).
+export function gridSteps(sampleSpec: SampleSpec, eps: number = 0): number {
+  const pupil = sampleSpec.pupil;
+  if (pupil.kind === "grid" && pupil.steps !== undefined) {
+    return Math.max(1, Math.round(pupil.steps));
+  }
+  const target = Math.max(1, Math.round(sampleSpec.raysPerField) || 1);
+  const open = Math.max(1e-3, 1 - eps * eps);
+  return Math.max(
+    1,
+    Math.round(1 + Math.sqrt((4 * target) / (Math.PI * open))),
+  );
+}
+
+// Square grid with corners on the pupil edge, clipped to the annulus. Every
+// point stands for the same cell area.
+function grid(n: number, eps: number): PupilPoint[] {
+  const out: PupilPoint[] = [];
+  for (let iy = 0; iy < n; iy++) {
+    for (let ix = 0; ix < n; ix++) {
+      const u = n > 1 ? (ix / (n - 1)) * 2 - 1 : 0;
+      const v = n > 1 ? (iy / (n - 1)) * 2 - 1 : 0;
+      const rho2 = u * u + v * v;
+      if (rho2 <= 1 && (eps === 0 || rho2 >= eps * eps)) {
+        out.push({ x: u, y: v, weight: 1 });
+      }
+    }
+  }
+  return out;
+}
+
+// Points spread evenly around rings at the given radii; each ring carries the
+// area between the midpoints to its neighbours, clipped to the annulus.
+function rings(radii: number[], counts: number[], eps: number): PupilPoint[] {
+  const out: PupilPoint[] = [];
+  radii.forEach((rho, k) => {
+    const lo = k === 0 ? eps : 0.5 * (radii[k - 1] + rho);
+    const hi = k === radii.length - 1 ? 1 : 0.5 * (rho + radii[k + 1]);
+    const area = hi * hi - lo * lo;
+    const n = counts[k];
+    for (let j = 0; j < n; j++) {
+      const t = (2 * Math.PI * j) / n;
+      out.push({
+        x: rho * Math.cos(t),
+        y: rho * Math.sin(t),
+        weight: area / n,
+      });
+    }
+  });
+  return out;
+}
+
+// Classic hexapolar pattern: 6k points on ring k, rings evenly spaced out to
+// the edge, with a centre point when the pupil is clear.
+function hexapolar(ringCount: number, eps: number): PupilPoint[] {
+  const radii: number[] = [];
+  const counts: number[] = [];
+  if (eps === 0) {
+    radii.push(0);
+    counts.push(1);
+  }
+  for (let k = 1; k <= ringCount; k++) {
+    radii.push(eps + ((1 - eps) * k) / ringCount);
+    counts.push(6 * k);
+  }
+  return rings(radii, counts, eps);
+}
+
+// Gauss–Legendre nodes and weights on [-1, 1].
+function gaussLegendre(n: number): { x: number; w: number }[] {
+  const out: { x: number; w: number }[] = [];
+  for (let i = 1; i <= n; i++) {
+    let x = Math.cos((Math.PI * (i - 0.25)) / (n + 0.5));
+    let dp = 1;
+    for (let iter = 0; iter < 100; iter++) {
+      let p0 = 1;
+      let p1 = x;
+      for (let k = 2; k <= n; k++) {
+        const p2 = ((2 * k - 1) * x * p1 - (k - 1) * p0) / k;
+        p0 = p1;
+        p1 = p2;
+      }
+      dp = (n * (x * p1 - p0)) / (x * x - 1);
+      const dx = p1 / dp;
+      x -= dx;
+      if (Math.abs(dx) < 1e-15) break;
+    }
+    out.push({ x, w: 2 / ((1 - x * x) * dp * dp) });
+  }
+  return out;
+}
+
+// Forbes' Gaussian quadrature: Gauss–Legendre rings in rho² across the
+// annulus, crossed with evenly spaced arms, so polynomial wavefronts up to
+// high order integrate exactly.
+function gaussQuad(ringCount: number, arms: number, eps: number): PupilPoint[] {
+  const out: PupilPoint[] = [];
+  const span = 1 - eps * eps;
+  for (const node of gaussLegendre(ringCount)) {
+    const rho = Math.sqrt(eps * eps + 0.5 * span * (node.x + 1));
+    for (let j = 0; j < arms; j++) {
+      const t = (2 * Math.PI * (j + 0.5)) / arms;
+      out.push({
+        x: rho * Math.cos(t),
+        y: rho * Math.sin(t),
+        weight: (0.5 * span * node.w) / arms,
+      });
+    }
+  }
+  return out;
+}
+
+// Sunflower spiral: equal-area points, so equal weights.
+function fibonacci(count: number, eps: number): PupilPoint[] {
+  const out: PupilPoint[] = [];
+  const span = 1 - eps * eps;
+  for (let i = 0; i < count; i++) {
+    const rho = Math.sqrt(eps * eps + (span * (i + 0.5)) / count);
+    const t = i * GOLDEN_ANGLE;
+    out.push({ x: rho * Math.cos(t), y: rho * Math.sin(t), weight: 1 });
+  }
+  return out;
+}
+
+// Mulberry32: small, fast and repeatable for a given seed.
+export function seededRandom(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Uniform over the annulus area, so equal weights.
+function random(count: number, seed: number, eps: number): PupilPoint[] {
+  const next = seededRandom(seed);
+  const out: PupilPoint[] = [];
+  const span = 1 - eps * eps;
+  for (let i = 0; i < count; i++) {
+    const rho = Math.sqrt(eps * eps + span * next());
+    const t = 2 * Math.PI * next();
+    out.push({ x: rho * Math.cos(t), y: rho * Math.sin(t), weight: 1 });
+  }
+  return out;
+}
+
+// Pupil samples for a plan, in mm. Densities not given in the spec are sized
+// so the pattern holds about `raysPerField` points.
+export function pupilSamples(
+  plan: OpticalPlan,
+  sampleSpec: SampleSpec,
+): PupilPoint[] {
+  const r = plan.entrance.pupilRadius_mm;
+  const eps = obstructionFraction(plan);
+  const target = Math.max(1, Math.round(sampleSpec.raysPerField) || 1);
+  const spec = sampleSpec.pupil;
+
+  let unit: PupilPoint[];
+  switch (spec.kind) {
+    case "grid":
+      unit = grid(gridSteps(sampleSpec, eps), eps);
+      break;
+    case "hexapolar":
+      unit = hexapolar(
+        Math.max(1, spec.rings ?? Math.round(Math.sqrt(target / 3))),
+        eps,
+      );
+      break;
+    case "gaussQuad": {
+      // Forbes pairs n rings with 2n + 1 arms.
+      const n = Math.max(
+        1,
+        spec.rings ?? Math.round((Math.sqrt(1 + 8 * target) - 1) / 4),
+      );
+      unit = gaussQuad(n, Math.max(1, spec.arms ?? 2 * n + 1), eps);
+      break;
+    }
+    case "fibonacci":
+      unit = fibonacci(target, eps);
+      break;
+    case "random":
+      unit = random(target, spec.seed ?? 1, eps);
+      break;
+  }
+
+  return normalizeWeights(
+    unit.map((p) => ({ x: p.x * r, y: p.y * r, weight: p.weight })),
+  );
+}
@@ -0,0 +1,48 @@
+// src/optics/raytrace/rayBuffer.ts
+
+// Sensor hits of one bundle as parallel arrays, allocated once per simulate
+// call and refilled for every focus trial: (a, b) in the plane basis, the
+// slopes (ta, tb) of the hit against a shift of the plane along its normal,
+// the ray weight and its wavelength.
+export type RayBuffer = {
+  count: number;
+  a: Float64Array;
+  b: Float64Array;
+  ta: Float64Array;
+  tb: Float64Array;
+  w: Float64Array;
+  wavelength_nm: Float64Array;
+};
+
+export function createRayBuffer(capacity: number): RayBuffer {
+  const n = Math.max(1, capacity);
+  return {
+    count: 0,
+    a: new Float64Array(n),
+    b: new Float64Array(n),
+    ta: new Float64Array(n),
+    tb: new Float64Array(n),
+    w: new Float64Array(n),
+    wavelength_nm: new Float64Array(n),
+  };
+}
+
+export function pushRay(
+  buffer: RayBuffer,
+  a: number,
+  b: number,
+  ta: number,
+  tb: number,
+  w: number,
+  wavelength_nm: number,
+): void {
+  const i = buffer.count;
+  if (i >= buffer.a.length) return;
+  buffer.a[i] = a;
+  buffer.b[i] = b;
+  buffer.ta[i] = ta;
+  buffer.tb[i] = tb;
+  buffer.w[i] = w;
+  buffer.wavelength_nm[i] = wavelength_nm;
+  buffer.count = i + 1;
+}
@@ -1,26 +1,47 @@
 // src/optics/raytrace/simulator.ts
 import type {
+  DiffractionResult,
+  FieldPoint,
   ImageQualityResult,
   OpticalPlan,
   OpticalSimulator,
   SampleSpec,
   SimulationResult,
-  Surface,
-  SurfaceConic,
+  SpectralSample,
+  SpotDiagram,
+  SpotPoint,
   SurfacePlane,
   TraceRay,
   TraceSegment,
   Vec3 as PlanVec3,
+  WavefrontResult,
 } from "../plan/types";
 
-import type { ConicSurface, PlaneSurface, Ray, Vec3 } from "./types";
-import { add, dot, mul, normalize, planeBasis, sub } from "./math";
+import type { Ray, Vec3 } from "./types";
+import { add, dot, mul, norm, normalize, planeBasis, sub, v3 } from "./math";
+import { reflect, refract } from "./trace";
 import {
-  intersectConic,
-  intersectPlane,
-  reflect,
-  surfaceNormalConic,
-} from "./trace";
+  compilePlan,
+  compileSensor,
+  compiledIndex,
+  compiledNormal,
+  intersectCompiled,
+  type CompiledPlan,
+  type CompiledSurface,
+} from "./compiled";
+import { createRayBuffer, pushRay, type RayBuffer } from "./rayBuffer";
+import { diffractionForField } from "./diffraction";
+import { encircledEnergyRadius, ensquaredEnergy } from "./energy";
+import { pupilSamples, type PupilPoint } from "./pupil";
+import {
+  WAVEFRONT_ZERNIKE_TERMS,
+  ZERNIKE_DEFOCUS,
+  ZERNIKE_TILT_Y,
+  fitZernikeNoll,
+  residualWavefront,
+  type PupilSample,
+} from "./zernike";
+import { DEFAULT_WAVELENGTH_NM } from "../constants";
 
 function toRayVec3(p: PlanVec3): Vec3 {
   return { x: p.x, y: p.y, z: p.z };
@@ -30,117 +51,84 @@ function toPlanVec3(p: Vec3): PlanVec3 {
   return { x: p.x, y: p.y, z: p.z };
 }
 
-function toConicSurface(s: SurfaceConic): ConicSurface {
-  return {
-    z0: s.z0_mm,
-    R: s.R_mm,
-    K: s.K,
-    sagSign: s.sagSign,
-    apertureRadius: s.aperture.radius_mm,
-    innerApertureRadius: s.aperture.innerRadius_mm,
-  };
-}
-
-function toPlaneSurface(s: SurfacePlane): PlaneSurface {
-  return {
-    p0: toRayVec3(s.p0_mm),
-    nHat: toRayVec3(s.nHat),
-    apertureRadius: s.aperture.radius_mm,
-    innerApertureRadius: s.aperture.innerRadius_mm,
-  };
-}
-
-type RuntimeSurface =
-  | {
-    id: string;
-    kind: "conic";
-    material: Surface["material"];
-    s: ConicSurface;
-  }
-  | {
-    id: string;
-    kind: "plane";
-    material: Surface["material"];
-    s: PlaneSurface;
-  };
-
-function buildRuntimeSurfaces(
-  plan: OpticalPlan,
-  sensorPlane: SurfacePlane,
-): RuntimeSurface[] {
-  const out: RuntimeSurface[] = [];
-
-  for (const s of plan.surfaces) {
-    out.push(
-      s.kind === "conic"
-        ? {
-          id: s.id,
-          kind: "conic",
-          material: s.material,
-          s: toConicSurface(s),
-        }
-        : {
-          id: s.id,
-          kind: "plane",
-          material: s.material,
-          s: toPlaneSurface(s),
-        },
-    );
-  }
-
-  out.push({
-    id: plan.sensor.id,
-    kind: "plane",
-    material: sensorPlane.material,
-    s: toPlaneSurface(sensorPlane),
-  });
-
-  return out;
-}
-
-function intersectRuntimeSurface(
-  rs: RuntimeSurface,
-  ray: Ray,
-): { t: number; p: Vec3 } | null {
-  return rs.kind === "conic"
-    ? intersectConic(rs.s, ray)
-    : intersectPlane(rs.s, ray);
-}
-
 function nudgeOrigin(p: Vec3, d: Vec3): Vec3 {
   return add(p, mul(d, 1e-6));
 }
 
-function traceRayCore(
-  plan: OpticalPlan,
-  fieldAngle_rad: number,
+function fieldAngle(field: FieldPoint): number {
+  return Math.atan(Math.hypot(Math.tan(field.x_rad), Math.tan(field.y_rad)));
+}
+
+// The last leg of a ray that reached the sensor: its start, direction, the
+// optical path length accumulated up to the start, and the medium index.
+type ExitPath = { o: Vec3; d: Vec3; opl_mm: number; index: number };
+
+// One straight run of a traced ray, from o along d to the nearest surface it
+// meets: t and p locate that hit, or t is Infinity when the ray escapes.
+type Leg = ExitPath & {
+  lastSurfaceId: string | null;
+  t: number;
+  p: Vec3 | null;
+  surface: CompiledSurface | null;
+};
+
+// Legs of every pupil ray of one field at one wavelength, traced without a
+// sensor. Only the sensor moves while focusing, so each trial plane just
+// looks for the first leg it cuts.
+type Bundle = Leg[][];
+
+// Per-simulate state shared by every trace: the compiled plan, the pupil
+// samples, a scratch buffer for sensor hits and the bundles traced so far.
+type TraceSession = {
+  compiled: CompiledPlan;
+  pupil: PupilPoint[];
+  sampleSpec: SampleSpec;
+  buffer: RayBuffer;
+  bundles: Map<FieldPoint, Map<number, Bundle>>;
+};
+
+// Walks a ray through the plan until it escapes, is absorbed, runs out of
+// bounces or, when a sensor is given, lands on it. The sensor is checked
+// last and only wins a strictly nearer hit, so a sensor found afterwards by
+// sensorHit lands exactly where a trace with it would have.
+function traceLegs(
+  compiled: CompiledPlan,
+  field: FieldPoint,
   pupil: { x: number; y: number },
-  sampleSpec: SampleSpec,
-  sensorPlane: SurfacePlane,
-  record: boolean,
-): { ray?: TraceRay; hitPoint?: Vec3 } {
-  const o0: Vec3 = { x: pupil.x, y: pupil.y, z: plan.entrance.zStart_mm };
-  const d0 = normalize({
-    x: Math.sin(fieldAngle_rad),
-    y: 0,
-    z: Math.cos(fieldAngle_rad),
-  });
+  wavelength_nm: number,
+  maxBounces: number,
+  sensor?: CompiledSurface,
+): { legs: Leg[]; hitPoint?: Vec3 } {
+  // Field rays are aimed at the stop: the pupil point is where the ray
+  // crosses z = 0, the primary vertex, not where it is launched.
+  const zStart = compiled.plan.entrance.zStart_mm;
+  const tanX = Math.tan(field.x_rad);
+  const tanY = Math.tan(field.y_rad);
+  const o0: Vec3 = {
+    x: pupil.x + zStart * tanX,
+    y: pupil.y + zStart * tanY,
+    z: zStart,
+  };
+  const d0 = normalize({ x: tanX, y: tanY, z: 1 });
 
   let ray: Ray = { o: o0, d: d0 };
   let lastSurfaceId: string | null = null;
+  let index = 1;
+  // Measured from the incoming plane wavefront through the global origin.
+  let opl = dot(o0, d0);
 
-  const segments: TraceSegment[] = [];
-  const surfaces = buildRuntimeSurfaces(plan, sensorPlane);
+  const legs: Leg[] = [];
+  const surfaces = compiled.surfaces;
 
-  for (let bounce = 0; bounce < sampleSpec.maxBounces; bounce++) {
+  for (let bounce = 0; bounce < maxBounces; bounce++) {
     let bestT = Infinity;
     let bestP: Vec3 | null = null;
-    let bestS: RuntimeSurface | null = null;
+    let bestS: CompiledSurface | null = null;
 
     for (const s of surfaces) {
       if (s.id === lastSurfaceId) continue;
 
-      const hit = intersectRuntimeSurface(s, ray);
+      const hit = intersectCompiled(s, ray);
       if (!hit || hit.t <= 1e-9) continue;
 
       if (hit.t < bestT) {
@@ -150,36 +138,29 @@ function traceRayCore(
       }
     }
 
-    if (!bestP || !bestS) break;
-
-    if (record) {
-      segments.push({
-        a: toPlanVec3(ray.o),
-        b: toPlanVec3(bestP),
-        surfaceId: bestS.id,
-      });
+    const leg: Leg = {
+      o: ray.o,
+      d: ray.d,
+      opl_mm: opl,
+      index,
+      lastSurfaceId,
+      t: bestT,
+      p: bestP,
+      surface: bestS,
+    };
+    legs.push(leg);
+
+    if (sensor) {
+      const hitPoint = sensorHit(leg, sensor);
+      if (hitPoint) return { legs, hitPoint };
     }
 
-    if (bestS.id === plan.sensor.id) {
-      return record
-        ? {
-          ray: {
-            fieldAngle_rad,
-            pupil: { x_mm: pupil.x, y_mm: pupil.y },
-            segments,
-            hitSensor: true,
-            sensorHitPoint_mm: toPlanVec3(bestP),
-          },
-        }
-        : { hitPoint: bestP };
-    }
+    if (!bestP || !bestS) break;
 
-    if (bestS.material.kind === "reflector") {
-      const nHat =
-        bestS.kind === "conic"
-          ? surfaceNormalConic(bestS.s, bestP)
-          : normalize(bestS.s.nHat);
+    opl += index * bestT;
 
+    if (bestS.material.kind === "reflector") {
+      const nHat = compiledNormal(bestS, bestP);
       const dNext = normalize(reflect(ray.d, nHat));
       ray = { o: nudgeOrigin(bestP, dNext), d: dNext };
       lastSurfaceId = bestS.id;
@@ -187,7 +168,27 @@ function traceRayCore(
     }
 
     if (bestS.material.kind === "transmitter") {
-      ray = { o: nudgeOrigin(bestP, ray.d), d: ray.d };
+      const nextIndex = compiledIndex(bestS, wavelength_nm, index);
+
+      if (!(nextIndex > 0) || nextIndex === index) {
+        ray = { o: nudgeOrigin(bestP, ray.d), d: ray.d };
+        lastSurfaceId = bestS.id;
+        continue;
+      }
+
+      const nHat = compiledNormal(bestS, bestP);
+      const refracted = refract(ray.d, nHat, index, nextIndex);
+
+      if (!refracted) {
+        const dNext = normalize(reflect(ray.d, nHat));
+        ray = { o: nudgeOrigin(bestP, dNext), d: dNext };
+        lastSurfaceId = bestS.id;
+        continue;
+      }
+
+      const dNext = normalize(refracted);
+      ray = { o: nudgeOrigin(bestP, dNext), d: dNext };
+      index = nextIndex;
       lastSurfaceId = bestS.id;
       continue;
     }
@@ -195,16 +196,113 @@ function traceRayCore(
     break;
   }
 
-  return record
-    ? {
-      ray: {
-        fieldAngle_rad,
-        pupil: { x_mm: pupil.x, y_mm: pupil.y },
-        segments,
-        hitSensor: false,
-      },
-    }
-    : {};
+  return { legs };
+}
+
+// Where the leg meets the sensor, if it does before reaching its own surface.
+function sensorHit(leg: Leg, sensor: CompiledSurface): Vec3 | null {
+  if (sensor.id === leg.lastSurfaceId) return null;
+  const hit = intersectCompiled(sensor, leg);
+  return hit && hit.t > 1e-9 && hit.t < leg.t ? hit.p : null;
+}
+
+// The first leg of a traced ray that lands on the sensor, and where.
+function landOnSensor(
+  legs: Leg[],
+  sensor: CompiledSurface,
+): { leg: number; hitPoint: Vec3 } | null {
+  for (let i = 0; i < legs.length; i++) {
+    const hitPoint = sensorHit(legs[i], sensor);
+    if (hitPoint) return { leg: i, hitPoint };
+  }
+  return null;
+}
+
+// The ray as drawn: a segment per leg up to the sensor, or up to its last
+// hit when it never lands.
+function recordRay(
+  field: FieldPoint,
+  pupil: { x: number; y: number },
+  wavelength_nm: number,
+  legs: Leg[],
+  sensor: CompiledSurface,
+): TraceRay {
+  const landing = landOnSensor(legs, sensor);
+  const end = landing ? landing.leg : legs.length;
+
+  const segments: TraceSegment[] = [];
+  for (let i = 0; i < end; i++) {
+    const leg = legs[i];
+    if (!leg.p || !leg.surface) break;
+    segments.push({
+      a: toPlanVec3(leg.o),
+      b: toPlanVec3(leg.p),
+      surfaceId: leg.surface.id,
+    });
+  }
+
+  const ray: TraceRay = {
+    fieldAngle_rad: fieldAngle(field),
+    wavelength_nm,
+    pupil: { x_mm: pupil.x, y_mm: pupil.y },
+    segments,
+    hitSensor: !!landing,
+  };
+  if (landing) {
+    segments.push({
+      a: toPlanVec3(legs[landing.leg].o),
+      b: toPlanVec3(landing.hitPoint),
+      surfaceId: sensor.id,
+    });
+    ray.sensorHitPoint_mm = toPlanVec3(landing.hitPoint);
+  }
+  return ray;
+}
+
+// The session's bundle for a field and wavelength, traced on first use.
+function bundleFor(
+  session: TraceSession,
+  field: FieldPoint,
+  wavelength_nm: number,
+): Bundle {
+  const { compiled, pupil, sampleSpec, bundles } = session;
+  let byWavelength = bundles.get(field);
+  if (!byWavelength) {
+    byWavelength = new Map();
+    bundles.set(field, byWavelength);
+  }
+
+  let bundle = byWavelength.get(wavelength_nm);
+  if (!bundle) {
+    bundle = pupil.map(
+      (p) =>
+        traceLegs(compiled, field, p, wavelength_nm, sampleSpec.maxBounces)
+          .legs,
+    );
+    byWavelength.set(wavelength_nm, bundle);
+  }
+  return bundle;
+}
+
+// A bare angle is a field point toward +x.
+export function traceSingleRay(
+  plan: OpticalPlan,
+  field: number | FieldPoint,
+  pupil: { x: number; y: number },
+  wavelength_nm: number,
+  maxBounces: number,
+): TraceRay | null {
+  const f = typeof field === "number" ? { x_rad: field, y_rad: 0 } : field;
+  const sensor = compileSensor(plan, plan.sensor.plane);
+  const { legs } = traceLegs(
+    compilePlan(plan),
+    f,
+    pupil,
+    wavelength_nm,
+    maxBounces,
+    sensor,
+  );
+  return recordRay(f, pupil, wavelength_nm, legs, sensor);
 }
 
 function shiftPlane(surface: SurfacePlane, shift_mm: number): SurfacePlane {
@@ -215,137 +313,546 @@ function shiftPlane(surface: SurfacePlane, shift_mm: number): SurfacePlane {
   };
 }
 
-function rmsAtPlane(
-  plan: OpticalPlan,
-  fieldAngle_rad: number,
-  pupil: { x: number; y: number }[],
-  sampleSpec: SampleSpec,
+type SpotStats = {
+  rms: number;
+  rmsA: number;
+  rmsB: number;
+  ca: number;
+  cb: number;
+  points: SpotPoint[];
+};
+
+const NO_SPOT: SpotStats = {
+  rms: NaN,
+  rmsA: NaN,
+  rmsB: NaN,
+  ca: NaN,
+  cb: NaN,
+  points: [],
+};
+
+// Traces the bundle onto the plane and fills the session buffer with the hits
+// in the plane basis. With `slopes`, rays running along the plane are dropped
+// and each hit also gets its slope against a shift of the plane.
+function fillBundle(
+  session: TraceSession,
+  field: FieldPoint,
+  spectrum: SpectralSample[],
   sensorPlane: SurfacePlane,
-): { rms: number; rmsA: number; rmsB: number } {
-  const basis = planeBasis(toRayVec3(sensorPlane.nHat));
-  const origin = toRayVec3(sensorPlane.p0_mm);
-  const hits: { a: number; b: number }[] = [];
-
-  for (const p of pupil) {
-    const h = traceRayCore(
-      plan,
-      fieldAngle_rad,
-      p,
-      sampleSpec,
-      sensorPlane,
-      false,
-    ).hitPoint;
-    if (!h) continue;
-
-    const d = sub(h, origin);
-    hits.push({ a: dot(d, basis.u), b: dot(d, basis.v) });
-  }
+  slopes: boolean,
+): RayBuffer {
+  const { compiled, pupil, buffer } = session;
+  const sensor = compileSensor(compiled.plan, sensorPlane);
+  const n = sensor.s.nHat;
+  const basis = planeBasis(sensorPlane.nHat);
+  const origin = sensor.s.p0;
+  buffer.count = 0;
+
+  for (const band of spectrum) {
+    const bundle = bundleFor(session, field, band.wavelength_nm);
+    for (let i = 0; i < pupil.length; i++) {
+      const landing = landOnSensor(bundle[i], sensor);
+      if (!landing) continue;
+
+      let ta = 0;
+      let tb = 0;
+      if (slopes) {
+        const leg = bundle[i][landing.leg];
+        const dn = dot(leg.d, n);
+        if (Math.abs(dn) < 1e-12) continue;
+        ta = dot(leg.d, basis.u) / dn;
+        tb = dot(leg.d, basis.v) / dn;
+      }
 
-  if (hits.length < 3) return { rms: NaN, rmsA: NaN, rmsB: NaN };
+      const d = sub(landing.hitPoint, origin);
+      pushRay(
+        buffer,
+        dot(d, basis.u),
+        dot(d, basis.v),
+        ta,
+        tb,
+        band.weight * pupil[i].weight,
+        band.wavelength_nm,
+      );
+    }
+  }
+  return buffer;
+}
 
-  let sa = 0,
+function spotAtPlane(
+  session: TraceSession,
+  field: FieldPoint,
+  spectrum: SpectralSample[],
+  sensorPlane: SurfacePlane,
+  withPoints: boolean = false,
+): SpotStats {
+  const hits = fillBundle(session, field, spectrum, sensorPlane, false);
+  const count = hits.count;
+  if (count < 3) return NO_SPOT;
+
+  let sw = 0,
+    sa = 0,
     sb = 0;
-  for (const h of hits) {
-    sa += h.a;
-    sb += h.b;
+  for (let i = 0; i < count; i++) {
+    sw += hits.w[i];
+    sa += hits.w[i] * hits.a[i];
+    sb += hits.w[i] * hits.b[i];
   }
-  const ca = sa / hits.length;
-  const cb = sb / hits.length;
+  if (!(sw > 0)) return NO_SPOT;
+
+  const ca = sa / sw;
+  const cb = sb / sw;
 
   let va = 0,
     vb = 0;
-  for (const h of hits) {
-    va += (h.a - ca) ** 2;
-    vb += (h.b - cb) ** 2;
+  for (let i = 0; i < count; i++) {
+    va += hits.w[i] * (hits.a[i] - ca) ** 2;
+    vb += hits.w[i] * (hits.b[i] - cb) ** 2;
+  }
+
+  const points: SpotPoint[] = [];
+  if (withPoints) {
+    for (let i = 0; i < count; i++) {
+      points.push({
+        u_mm: hits.a[i] - ca,
+        v_mm: hits.b[i] - cb,
+        wavelength_nm: hits.wavelength_nm[i],
+        weight: hits.w[i],
+      });
+    }
   }
 
   return {
-    rms: Math.sqrt((va + vb) / hits.length),
-    rmsA: Math.sqrt(va / hits.length),
-    rmsB: Math.sqrt(vb / hits.length),
+    rms: Math.sqrt((va + vb) / sw),
+    rmsA: Math.sqrt(va / sw),
+    rmsB: Math.sqrt(vb / sw),
+    ca,
+    cb,
+    points,
   };
 }
 
+// Spot RMS² against a shift s of the plane along its normal is
+// a + 2bs + cs², weighted, as long as every ray keeps its last leg: each hit
+// slides across the plane at that leg's slope.
+type FocusQuadratic = { a: number; b: number; c: number };
+
+const FOCUS_GOLDEN_ITERATIONS = 12;
+const FOCUS_MIN_BRACKET_MM = 1e-3;
+const GOLDEN_RATIO = (Math.sqrt(5) - 1) / 2;
+
+function focusQuadratic(
+  session: TraceSession,
+  field: FieldPoint,
+  spectrum: SpectralSample[],
+  sensorPlane: SurfacePlane,
+): FocusQuadratic | null {
+  const rays = fillBundle(session, field, spectrum, sensorPlane, true);
+  const count = rays.count;
+  if (count < 3) return null;
+
+  let sw = 0;
+  let ma = 0;
+  let mb = 0;
+  let mta = 0;
+  let mtb = 0;
+  for (let i = 0; i < count; i++) {
+    const w = rays.w[i];
+    sw += w;
+    ma += w * rays.a[i];
+    mb += w * rays.b[i];
+    mta += w * rays.ta[i];
+    mtb += w * rays.tb[i];
+  }
+  if (!(sw > 0)) return null;
+  ma /= sw;
+  mb /= sw;
+  mta /= sw;
+  mtb /= sw;
+
+  let a = 0;
+  let b = 0;
+  let c = 0;
+  for (let i = 0; i < count; i++) {
+    const w = rays.w[i];
+    const da = rays.a[i] - ma;
+    const db = rays.b[i] - mb;
+    const dta = rays.ta[i] - mta;
+    const dtb = rays.tb[i] - mtb;
+    a += w * (da * da + db * db);
+    b += w * (da * dta + db * dtb);
+    c += w * (dta * dta + dtb * dtb);
+  }
+  return c > 0 ? { a: a / sw, b: b / sw, c: c / sw } : null;
+}
+
+function goldenSection(
+  f: (x: number) => number,
+  lo: number,
+  hi: number,
+  iterations: number,
+): number {
+  let x1 = hi - GOLDEN_RATIO * (hi - lo);
+  let x2 = lo + GOLDEN_RATIO * (hi - lo);
+  let f1 = f(x1);
+  let f2 = f(x2);
+
+  for (let i = 0; i < iterations; i++) {
+    if (f1 <= f2) {
+      hi = x2;
+      x2 = x1;
+      f2 = f1;
+      x1 = hi - GOLDEN_RATIO * (hi - lo);
+      f1 = f(x1);
+    } else {
+      lo = x1;
+      x1 = x2;
+      f1 = f2;
+      x2 = lo + GOLDEN_RATIO * (hi - lo);
+      f2 = f(x2);
+    }
+  }
+  return f1 <= f2 ? x1 : x2;
+}
+
+// Least-squares focus of the bundle, refined by golden-section search on the
+// traced objective over a bracket a few minimum blur widths across.
+function refineFocus(
+  q: FocusQuadratic,
+  objective: (shift_mm: number) => number,
+): number {
+  const s0 = -q.b / q.c;
+  const minimum = Math.max(0, q.a - (q.b * q.b) / q.c);
+  const half = Math.max(2 * Math.sqrt(minimum / q.c), FOCUS_MIN_BRACKET_MM);
+  return goldenSection(
+    (s) => {
+      const v = objective(s);
+      return Number.isFinite(v) ? v : Infinity;
+    },
+    s0 - half,
+    s0 + half,
+    FOCUS_GOLDEN_ITERATIONS,
+  );
+}
+
 function bestFocusForField(
-  plan: OpticalPlan,
-  fieldAngle_rad: number,
-  pupil: { x: number; y: number }[],
-  sampleSpec: SampleSpec,
+  session: TraceSession,
+  field: FieldPoint,
+  spectrum: SpectralSample[],
 ): {
   bestShift_mm: number;
   bestPlane: SurfacePlane;
-  bestRms: { rms: number; rmsA: number; rmsB: number };
 } {
-  const sensor0 = plan.sensor.plane;
-  const n = normalize(toRayVec3(sensor0.nHat));
-  const z0 = dot(toRayVec3(sensor0.p0_mm), n);
-  const step = Math.max(0.5, Math.abs(z0) * 1e-4);
-
-  let bestShift_mm = 0;
-  let bestRms = { rms: NaN, rmsA: NaN, rmsB: NaN };
-
-  for (let i = -4; i <= 4; i++) {
-    const shift = i * step;
-    const plane = shiftPlane(sensor0, shift);
-    const r = rmsAtPlane(plan, fieldAngle_rad, pupil, sampleSpec, plane);
-
-    if (!Number.isFinite(r.rms)) continue;
-    if (!Number.isFinite(bestRms.rms) || r.rms < bestRms.rms) {
-      bestRms = r;
-      bestShift_mm = shift;
-    }
-  }
+  const sensor0 = session.compiled.plan.sensor.plane;
+  const q = focusQuadratic(session, field, spectrum, sensor0);
+  const bestShift_mm = q
+    ? refineFocus(
+        q,
+        (s) =>
+          spotAtPlane(session, field, spectrum, shiftPlane(sensor0, s)).rms,
+      )
+    : 0;
 
   return {
     bestShift_mm,
     bestPlane: shiftPlane(sensor0, bestShift_mm),
-    bestRms,
+  };
+}
+
+// One flat sensor position for every field: the shift minimising the
+// field-weighted sum of spot RMS².
+function commonFocusShift(
+  session: TraceSession,
+  spectrum: SpectralSample[],
+): number {
+  const sensor0 = session.compiled.plan.sensor.plane;
+  const fields = session.compiled.plan.entrance.fieldPoints;
+
+  const q: FocusQuadratic = { a: 0, b: 0, c: 0 };
+  for (const field of fields) {
+    const f = focusQuadratic(session, field, spectrum, sensor0);
+    if (!f) continue;
+    const w = field.weight ?? 1;
+    q.a += w * f.a;
+    q.b += w * f.b;
+    q.c += w * f.c;
+  }
+  if (!(q.c > 0)) return 0;
+
+  return refineFocus(q, (shift_mm) => {
+    const plane = shiftPlane(sensor0, shift_mm);
+    let sum = 0;
+    for (const field of fields) {
+      const r = spotAtPlane(session, field, spectrum, plane);
+      sum += (field.weight ?? 1) * r.rms * r.rms;
+    }
+    return sum;
+  });
+}
+
+function normalizedSpectrum(sampleSpec: SampleSpec): SpectralSample[] {
+  const bands = (sampleSpec.wavelengths ?? []).filter(
+    (b) => b.wavelength_nm > 0 && b.weight > 0,
+  );
+  return bands.length > 0
+    ? bands
+    : [{ wavelength_nm: DEFAULT_WAVELENGTH_NM, weight: 1 }];
+}
+
+function referenceWavelength(spectrum: SpectralSample[]): number {
+  let sw = 0;
+  let sl = 0;
+  for (const b of spectrum) {
+    sw += b.weight;
+    sl += b.weight * b.wavelength_nm;
+  }
+  return sw > 0 ? sl / sw : DEFAULT_WAVELENGTH_NM;
+}
+
+function chromaticForField(
+  session: TraceSession,
+  field: FieldPoint,
+  spectrum: SpectralSample[],
+  commonPlane: SurfacePlane,
+): { lateral_mm: number; longitudinal_mm: number } {
+  if (spectrum.length < 2) return { lateral_mm: 0, longitudinal_mm: 0 };
+
+  const sorted = [...spectrum].sort(
+    (a, b) => a.wavelength_nm - b.wavelength_nm,
+  );
+  const blue = [{ ...sorted[0], weight: 1 }];
+  const red = [{ ...sorted[sorted.length - 1], weight: 1 }];
+
+  const focusBlue = bestFocusForField(session, field, blue);
+  const focusRed = bestFocusForField(session, field, red);
+
+  const spotBlue = spotAtPlane(session, field, blue, commonPlane);
+  const spotRed = spotAtPlane(session, field, red, commonPlane);
+
+  return {
+    lateral_mm: Math.hypot(spotRed.ca - spotBlue.ca, spotRed.cb - spotBlue.cb),
+    longitudinal_mm: Math.abs(focusRed.bestShift_mm - focusBlue.bestShift_mm),
+  };
+}
+
+// Optical path to a sphere centred on the spot centroid, with radius the mean
+// distance back to the last surface (a stand-in for the exit pupil), fitted
+// over the pupil at the stop normalised to its radius.
+function wavefrontForField(
+  session: TraceSession,
+  field: FieldPoint,
+  wavelength_nm: number,
+  sensorPlane: SurfacePlane,
+): WavefrontResult | undefined {
+  const { compiled, pupil } = session;
+  const r = compiled.plan.entrance.pupilRadius_mm;
+  const sensor = compileSensor(compiled.plan, sensorPlane);
+  if (!(r > 0)) return undefined;
+
+  const bundle = bundleFor(session, field, wavelength_nm);
+
+  const hits: {
+    u: number;
+    v: number;
+    area: number;
+    p: Vec3;
+    path: ExitPath;
+  }[] = [];
+  pupil.forEach((p, i) => {
+    const landing = landOnSensor(bundle[i], sensor);
+    if (!landing) return;
+    hits.push({
+      u: p.x / r,
+      v: p.y / r,
+      area: p.weight,
+      p: landing.hitPoint,
+      path: bundle[i][landing.leg],
+    });
+  });
+  if (hits.length < 2 * WAVEFRONT_ZERNIKE_TERMS) return undefined;
+
+  const area = hits.reduce((a, h) => a + h.area, 0);
+  if (!(area > 0)) return undefined;
+
+  let sum = v3(0, 0, 0);
+  for (const h of hits) sum = add(sum, mul(h.p, h.area));
+  const centre = mul(sum, 1 / area);
+
+  let radius = 0;
+  for (const h of hits) radius += h.area * norm(sub(h.path.o, centre));
+  radius /= area;
+
+  const wavelength_mm = wavelength_nm * 1e-6;
+  const samples: PupilSample[] = [];
+  for (const h of hits) {
+    const q = sub(h.path.o, centre);
+    const b = dot(h.path.d, q);
+    const disc = b * b - (dot(q, q) - radius * radius);
+    if (!(disc >= 0)) continue;
+
+    // The crossing nearer the last surface, where the ray enters the sphere.
+    const t = -b - Math.sqrt(disc);
+    samples.push({
+      u: h.u,
+      v: h.v,
+      w: (h.path.opl_mm + h.path.index * t) / wavelength_mm,
+      area: h.area,
+    });
+  }
+  if (samples.length < 2 * WAVEFRONT_ZERNIKE_TERMS) return undefined;
+
+  // Drop the bulk path length before fitting.
+  let sampleArea = 0;
+  let pathSum = 0;
+  for (const s of samples) {
+    sampleArea += s.area ?? 1;
+    pathSum += (s.area ?? 1) * s.w;
+  }
+  const mean = pathSum / sampleArea;
+  for (const s of samples) s.w -= mean;
+
+  const zernike = fitZernikeNoll(samples);
+  if (!zernike) return undefined;
+
+  // Transverse direction cosine grows linearly across an aplanatic pupil;
+  // its slope against normalised pupil radius is the image-space NA.
+  let chief = v3(0, 0, 0);
+  for (const h of hits) chief = add(chief, mul(h.path.d, h.area));
+  chief = normalize(chief);
+
+  let sinRho = 0;
+  let rho2 = 0;
+  for (const h of hits) {
+    const transverse = sub(h.path.d, mul(chief, dot(h.path.d, chief)));
+    const rho = Math.hypot(h.u, h.v);
+    sinRho += h.area * norm(transverse) * rho;
+    rho2 += h.area * rho * rho;
+  }
+  const na = rho2 > 0 ? sinRho / rho2 : NaN;
+
+  const tiltFree = residualWavefront(samples, zernike, ZERNIKE_TILT_Y);
+  const focused = residualWavefront(samples, zernike, ZERNIKE_DEFOCUS);
+
+  return {
+    wavelength_nm,
+    zernike_waves: zernike,
+    rms_waves: tiltFree.rms,
+    rmsFocused_waves: focused.rms,
+    pv_waves: tiltFree.pv,
+    sampleCount: samples.length,
+    workingFRatio: na > 0 ? 1 / (2 * na) : NaN,
   };
 }
 
 export function createRaytraceSimulator(): OpticalSimulator {
   return {
     simulate(plan: OpticalPlan, sampleSpec: SampleSpec): SimulationResult {
-      const pupil: { x: number; y: number }[] = [];
-      const r = plan.entrance.pupilRadius_mm;
-      const n = Math.max(1, sampleSpec.pupil.steps | 0);
-
-      for (let iy = 0; iy < n; iy++) {
-        for (let ix = 0; ix < n; ix++) {
-          const x = ((ix / (n - 1)) * 2 - 1) * r;
-          const y = ((iy / (n - 1)) * 2 - 1) * r;
-          if (x * x + y * y <= r * r) pupil.push({ x, y });
-        }
-      }
+      const compiled = compilePlan(plan);
+      const pupil = pupilSamples(plan, sampleSpec);
 
       const rays: TraceRay[] = [];
       const imageQuality: ImageQualityResult[] = [];
+      const spots: SpotDiagram[] = [];
+      const pixel_mm = (sampleSpec.pixelSize_um ?? NaN) * 1e-3;
+      const diffraction: DiffractionResult[] = [];
+
+      const fullSpectrum = normalizedSpectrum(sampleSpec);
+      const wavelength_nm = referenceWavelength(fullSpectrum);
+      const spectrum = compiled.dispersive
+        ? fullSpectrum
+        : [{ wavelength_nm, weight: 1 }];
+
+      const session: TraceSession = {
+        compiled,
+        pupil,
+        sampleSpec,
+        buffer: createRayBuffer(pupil.length * spectrum.length),
+        bundles: new Map(),
+      };
+
+      const commonShift_mm =
+        sampleSpec.focus === "common"
+          ? commonFocusShift(session, spectrum)
+          : undefined;
+      const commonPlane =
+        commonShift_mm !== undefined
+          ? shiftPlane(plan.sensor.plane, commonShift_mm)
+          : undefined;
+
+      for (const field of plan.entrance.fieldPoints) {
+        const fieldAngle_rad = fieldAngle(field);
+
+        const best = bestFocusForField(session, field, spectrum);
+        const focusPlane = commonPlane ?? best.bestPlane;
+        const stats = spotAtPlane(session, field, spectrum, focusPlane, true);
+        const focusSensor = compileSensor(plan, focusPlane);
+
+        for (const band of spectrum) {
+          const bundle = bundleFor(session, field, band.wavelength_nm);
+          pupil.forEach((p, i) => {
+            rays.push(
+              recordRay(field, p, band.wavelength_nm, bundle[i], focusSensor),
+            );
+          });
+        }
 
-      for (const fieldAngle_rad of plan.entrance.fieldAngles_rad) {
-        const best = bestFocusForField(plan, fieldAngle_rad, pupil, sampleSpec);
+        const color = chromaticForField(session, field, spectrum, focusPlane);
 
-        for (const p of pupil) {
-          const r0 = traceRayCore(
-            plan,
-            fieldAngle_rad,
-            p,
-            sampleSpec,
-            best.bestPlane,
-            true,
-          );
-          if (r0.ray) rays.push(r0.ray);
-        }
+        const wavefront = wavefrontForField(
+          session,
+          field,
+          wavelength_nm,
+          commonPlane ?? plan.sensor.plane,
+        );
+
+        const points = stats.points;
+        const airyRadius_mm =
+          1.22 * wavelength_nm * 1e-6 * (wavefront?.workingFRatio ?? NaN);
+
+        spots.push({
+          fieldAngle_rad,
+          field,
+          centroid_mm: { u: stats.ca, v: stats.cb },
+          points,
+          airyRadius_mm: Number.isFinite(airyRadius_mm)
+            ? airyRadius_mm
+            : undefined,
+        });
 
         imageQuality.push({
           fieldAngle_rad,
-          spotRms_mm: best.bestRms.rms,
-          spotRmsU_mm: best.bestRms.rmsA,
-          spotRmsV_mm: best.bestRms.rmsB,
+          field,
+          spotRms_mm: stats.rms,
+          spotRmsU_mm: stats.rmsA,
+          spotRmsV_mm: stats.rmsB,
           bestFocusShift_mm: best.bestShift_mm,
+          commonFocusShift_mm: commonShift_mm,
+          wavelength_nm,
+          lateralColor_mm: color.lateral_mm,
+          longitudinalColor_mm: color.longitudinal_mm,
+          wavefront,
+          ee50Radius_mm: encircledEnergyRadius(points, 0.5),
+          ee80Radius_mm: encircledEnergyRadius(points, 0.8),
+          ensquaredEnergy:
+            pixel_mm > 0 ? ensquaredEnergy(points, pixel_mm) : undefined,
         });
+
+        if (sampleSpec.diffraction && wavefront) {
+          const d = diffractionForField(
+            plan,
+            fieldAngle_rad,
+            field,
+            wavefront,
+            sampleSpec.diffraction,
+            pixel_mm,
+          );
+          if (d) diffraction.push(d);
+        }
       }
 
-      return { traces: { rays }, imageQuality };
+      return sampleSpec.diffraction
+        ? { traces: { rays }, imageQuality, spots, diffraction }
+        : { traces: { rays }, imageQuality, spots };
     },
   };
 }
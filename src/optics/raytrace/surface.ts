@@ -1,12 +1,21 @@
 // src/optics/raytrace/surface.ts
-import type { ConicSurface, Vec3 } from "./types";
+import type { ConicConstants, ConicSurface, Vec3 } from "./types";
 import { normalize } from "./math";
+import { freeformGradient, freeformSag } from "./freeform";
 
 export function sagConicUnsigned(r: number, R: number, K: number): number {
-  const R2 = R * R;
+  return sagConicTerms(r, R, R * R, 1 + K);
+}
+
+function sagConicTerms(
+  r: number,
+  R: number,
+  R2: number,
+  onePlusK: number,
+): number {
   if (!(R2 > 0) || !Number.isFinite(R2)) return NaN;
 
-  const u = ((1 + K) * (r * r)) / R2;
+  const u = (onePlusK * (r * r)) / R2;
   const inside = 1 - u;
   if (inside <= 0) return NaN;
 
@@ -18,10 +27,18 @@ export function sagConicUnsigned(r: number, R: number, K: number): number {
 }
 
 export function dsagdrConicUnsigned(r: number, R: number, K: number): number {
-  const R2 = R * R;
+  return dsagdrConicTerms(r, R, R * R, 1 + K);
+}
+
+function dsagdrConicTerms(
+  r: number,
+  R: number,
+  R2: number,
+  onePlusK: number,
+): number {
   if (!(R2 > 0) || !Number.isFinite(R2)) return NaN;
 
-  const u = ((1 + K) * (r * r)) / R2;
+  const u = (onePlusK * (r * r)) / R2;
   const inside = 1 - u;
   if (inside <= 0) return NaN;
 
@@ -31,34 +48,101 @@ export function dsagdrConicUnsigned(r: number, R: number, K: number): number {
 
   const A = (r * r) / R;
   const dA = (2 * r) / R;
-  const dDenom = (-(1 + K) * r) / (R2 * s);
+  const dDenom = (-onePlusK * r) / (R2 * s);
 
   return (dA * denom - A * dDenom) / (denom * denom);
 }
 
+function isFlatBase(R: number): boolean {
+  return R === 0 || !Number.isFinite(R);
+}
+
+export function conicConstants(surface: ConicSurface): ConicConstants {
+  return {
+    flat: isFlatBase(surface.R),
+    R2: surface.R * surface.R,
+    onePlusK: 1 + surface.K,
+  };
+}
+
+function baseSag(surface: ConicSurface, r: number): number {
+  const c = surface.constants ?? conicConstants(surface);
+  return c.flat ? 0 : sagConicTerms(r, surface.R, c.R2, c.onePlusK);
+}
+
+function baseSlope(surface: ConicSurface, r: number): number {
+  const c = surface.constants ?? conicConstants(surface);
+  return c.flat ? 0 : dsagdrConicTerms(r, surface.R, c.R2, c.onePlusK);
+}
+
+export function sagRotational(surface: ConicSurface, r: number): number {
+  let s = baseSag(surface, r);
+  const a = surface.asphere;
+  if (a) {
+    const r2 = r * r;
+    let rp = r2 * r2;
+    for (const c of a) {
+      s += c * rp;
+      rp *= r2;
+    }
+  }
+  return s;
+}
+
+export function dsagdrRotational(surface: ConicSurface, r: number): number {
+  let ds = baseSlope(surface, r);
+  const a = surface.asphere;
+  if (a) {
+    const r2 = r * r;
+    let rp = r2 * r;
+    let p = 4;
+    for (const c of a) {
+      ds += p * c * rp;
+      rp *= r2;
+      p += 2;
+    }
+  }
+  return ds;
+}
+
 export function sagZ(surface: ConicSurface, x: number, y: number): number {
   const r = Math.sqrt(x * x + y * y);
-  const s = sagConicUnsigned(r, surface.R, surface.K);
+  let s = sagRotational(surface, r);
+  if (surface.freeform) s += freeformSag(surface.freeform, x, y);
   if (!Number.isFinite(s)) return NaN;
-  return surface.z0 + surface.sagSign * s;
+  return surface.z0 + s;
 }
 
-export function surfaceNormal(surface: ConicSurface, p: Vec3): Vec3 {
-  const r = Math.sqrt(p.x * p.x + p.y * p.y);
+export function sagGradient(
+  surface: ConicSurface,
+  x: number,
+  y: number,
+): { dx: number; dy: number } {
+  const r = Math.sqrt(x * x + y * y);
+  let dx = 0;
+  let dy = 0;
 
-  if (!(r > 0)) {
-    return normalize({ x: 0, y: 0, z: surface.sagSign });
+  if (r > 0) {
+    const ds = dsagdrRotational(surface, r);
+    dx = ds * (x / r);
+    dy = ds * (y / r);
+  }
+
+  if (surface.freeform) {
+    const g = freeformGradient(surface.freeform, x, y);
+    dx += g.dx;
+    dy += g.dy;
   }
 
-  const ds = dsagdrConicUnsigned(r, surface.R, surface.K);
-  if (!Number.isFinite(ds)) {
+  return { dx, dy };
+}
+
+export function surfaceNormal(surface: ConicSurface, p: Vec3): Vec3 {
+  const g = sagGradient(surface, p.x, p.y);
+  if (!Number.isFinite(g.dx) || !Number.isFinite(g.dy)) {
     return normalize({ x: 0, y: 0, z: surface.sagSign });
   }
 
-  const dsSigned = surface.sagSign * ds;
-  return normalize({
-    x: -dsSigned * (p.x / r),
-    y: -dsSigned * (p.y / r),
-    z: surface.sagSign,
-  });
+  const k = surface.sagSign;
+  return normalize({ x: -k * g.dx, y: -k * g.dy, z: k });
 }
@@ -1,7 +1,8 @@
 // src/optics/raytrace/trace.ts
 import type { ConicSurface, PlaneSurface, Ray, Vec3 } from "./types";
 import { add, dot, mul, normalize, sub } from "./math";
-import { sagZ, dsagdrConicUnsigned, surfaceNormal } from "./surface";
+import { sagZ, sagGradient, surfaceNormal } from "./surface";
+import { toGlobalDir, toGlobalPoint, toLocalDir, toLocalPoint } from "./frame";
 
 function withinAnnulus(
   r2: number,
@@ -15,7 +16,9 @@ function withinAnnulus(
 }
 
 function withinApertureConic(surface: ConicSurface, p: Vec3): boolean {
-  const r2 = p.x * p.x + p.y * p.y;
+  const x = p.x - (surface.apertureOffset?.x ?? 0);
+  const y = p.y - (surface.apertureOffset?.y ?? 0);
+  const r2 = x * x + y * y;
   return withinAnnulus(r2, surface.apertureRadius, surface.innerApertureRadius);
 }
 
@@ -24,7 +27,8 @@ function withinAperturePlane(surface: PlaneSurface, p: Vec3): boolean {
   const dy = p.y - surface.p0.y;
   const dz = p.z - surface.p0.z;
   const dd = dx * dx + dy * dy + dz * dz;
-  const proj = dot({ x: dx, y: dy, z: dz }, normalize(surface.nHat));
+  const n = surface.unitNormal ? surface.nHat : normalize(surface.nHat);
+  const proj = dot({ x: dx, y: dy, z: dz }, n);
   const r2 = Math.max(0, dd - proj * proj);
   return withinAnnulus(r2, surface.apertureRadius, surface.innerApertureRadius);
 }
@@ -34,9 +38,45 @@ export function reflect(d: Vec3, nHat: Vec3): Vec3 {
   return sub(d, mul(nHat, 2 * dn));
 }
 
+export function refract(
+  d: Vec3,
+  nHat: Vec3,
+  n1: number,
+  n2: number,
+): Vec3 | null {
+  let n = nHat;
+  let cosI = -dot(d, n);
+  if (cosI < 0) {
+    n = mul(n, -1);
+    cosI = -cosI;
+  }
+
+  const eta = n1 / n2;
+  const k = 1 - eta * eta * (1 - cosI * cosI);
+  if (!Number.isFinite(k) || k < 0) return null;
+
+  return add(mul(d, eta), mul(n, eta * cosI - Math.sqrt(k)));
+}
+
+// Hit against the surface in its own frame; t is unchanged by the rigid
+// transform, so only the hit point has to be mapped back.
 export function intersectConic(
   surface: ConicSurface,
   rayIn: Ray,
+): { t: number; p: Vec3 } | null {
+  const f = surface.frame;
+  if (!f) return intersectConicLocal(surface, rayIn);
+
+  const hit = intersectConicLocal(surface, {
+    o: toLocalPoint(f, rayIn.o),
+    d: toLocalDir(f, rayIn.d),
+  });
+  return hit ? { t: hit.t, p: toGlobalPoint(f, hit.p) } : null;
+}
+
+function intersectConicLocal(
+  surface: ConicSurface,
+  rayIn: Ray,
 ): { t: number; p: Vec3 } | null {
   const ray: Ray = { o: rayIn.o, d: normalize(rayIn.d) };
 
@@ -64,16 +104,8 @@ export function intersectConic(
       return { t, p: hit };
     }
 
-    const r = Math.sqrt(p.x * p.x + p.y * p.y);
-    let dfdt = ray.d.z;
-
-    if (r > 0) {
-      const dsdr = dsagdrConicUnsigned(r, surface.R, surface.K);
-      if (!Number.isFinite(dsdr)) return null;
-
-      const drdt = (p.x / r) * ray.d.x + (p.y / r) * ray.d.y;
-      dfdt -= surface.sagSign * dsdr * drdt;
-    }
+    const g = sagGradient(surface, p.x, p.y);
+    const dfdt = ray.d.z - g.dx * ray.d.x - g.dy * ray.d.y;
 
     if (!Number.isFinite(dfdt) || Math.abs(dfdt) < 1e-12) return null;
 
@@ -89,7 +121,7 @@ export function intersectPlane(
   rayIn: Ray,
 ): { t: number; p: Vec3 } | null {
   const ray: Ray = { o: rayIn.o, d: normalize(rayIn.d) };
-  const n = normalize(surface.nHat);
+  const n = surface.unitNormal ? surface.nHat : normalize(surface.nHat);
   const denom = dot(n, ray.d);
   if (!Number.isFinite(denom) || Math.abs(denom) < 1e-12) return null;
 
@@ -102,5 +134,7 @@ export function intersectPlane(
 }
 
 export function surfaceNormalConic(surface: ConicSurface, p: Vec3): Vec3 {
-  return surfaceNormal(surface, p);
+  const f = surface.frame;
+  if (!f) return surfaceNormal(surface, p);
+  return toGlobalDir(f, surfaceNormal(surface, toLocalPoint(f, p)));
 }
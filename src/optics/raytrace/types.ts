@@ -1,4 +1,6 @@
 // src/optics/raytrace/types.ts
+import type { FreeformSag } from "../plan/types";
+
 export type Vec3 = {
   x: number;
   y: number;
@@ -10,18 +12,43 @@ export type Ray = {
   d: Vec3;
 };
 
+// Local axes of a placed surface in global coordinates; local points are
+// taken about the vertex (0, 0, z0) and the frame is offset by decenter.
+export type RigidFrame = {
+  pivot: Vec3;
+  decenter: Vec3;
+  ex: Vec3;
+  ey: Vec3;
+  ez: Vec3;
+};
+
+// Base-conic terms that do not change from ray to ray.
+export type ConicConstants = {
+  flat: boolean;
+  R2: number;
+  onePlusK: number;
+};
+
 export type ConicSurface = {
   z0: number;
   R: number;
   K: number;
   sagSign: -1 | 1;
+  // Even polynomial coefficients for r^4, r^6, r^8, ...
+  asphere?: number[];
+  freeform?: FreeformSag;
+  frame?: RigidFrame;
   apertureRadius: number;
   innerApertureRadius?: number;
+  apertureOffset?: { x: number; y: number };
+  constants?: ConicConstants;
 };
 
 export type PlaneSurface = {
   p0: Vec3;
   nHat: Vec3;
+  // nHat is already unit length, so the tracer need not renormalise it.
+  unitNormal?: boolean;
   apertureRadius: number;
   innerApertureRadius?: number;
 };
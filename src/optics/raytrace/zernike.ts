@@ -0,0 +1,166 @@
+// src/optics/raytrace/zernike.ts
+import { solveLinear } from "./math";
+
+export function nollToNM(j: number): { n: number; m: number } {
+  let n = 0;
+  let j1 = j - 1;
+  while (j1 > n) {
+    n++;
+    j1 -= n;
+  }
+  const mAbs = (n % 2) + 2 * Math.floor((j1 + ((n + 1) % 2)) / 2);
+  return { n, m: j % 2 === 0 ? mAbs : -mAbs };
+}
+
+function factorial(k: number): number {
+  let f = 1;
+  for (let i = 2; i <= k; i++) f *= i;
+  return f;
+}
+
+function radial(n: number, mAbs: number, rho: number): [number, number] {
+  let r = 0;
+  let dr = 0;
+  for (let k = 0; k <= (n - mAbs) / 2; k++) {
+    const c =
+      ((k % 2 === 0 ? 1 : -1) * factorial(n - k)) /
+      (factorial(k) *
+        factorial((n + mAbs) / 2 - k) *
+        factorial((n - mAbs) / 2 - k));
+    const p = n - 2 * k;
+    r += c * Math.pow(rho, p);
+    if (p > 0) dr += c * p * Math.pow(rho, p - 1);
+  }
+  return [r, dr];
+}
+
+function normalization(n: number, m: number): number {
+  return m === 0 ? Math.sqrt(n + 1) : Math.sqrt(2 * (n + 1));
+}
+
+export function zernikeNoll(j: number, rho: number, theta: number): number {
+  const { n, m } = nollToNM(j);
+  const [r] = radial(n, Math.abs(m), rho);
+  const a =
+    m > 0 ? Math.cos(m * theta) : m < 0 ? Math.sin(-m * theta) : 1;
+  return normalization(n, m) * r * a;
+}
+
+// Gradient with respect to the normalized Cartesian coordinates (u, v).
+export function zernikeNollGradient(
+  j: number,
+  u: number,
+  v: number,
+): { du: number; dv: number } {
+  const { n, m } = nollToNM(j);
+  const rho = Math.max(1e-12, Math.hypot(u, v));
+  const theta = Math.atan2(v, u);
+  const [r, dr] = radial(n, Math.abs(m), rho);
+
+  const mAbs = Math.abs(m);
+  const a =
+    m > 0 ? Math.cos(mAbs * theta) : m < 0 ? Math.sin(mAbs * theta) : 1;
+  const da =
+    m > 0
+      ? -mAbs * Math.sin(mAbs * theta)
+      : m < 0
+        ? mAbs * Math.cos(mAbs * theta)
+        : 0;
+
+  const N = normalization(n, m);
+  const c = Math.cos(theta);
+  const s = Math.sin(theta);
+
+  return {
+    du: N * (dr * a * c - (r / rho) * da * s),
+    dv: N * (dr * a * s + (r / rho) * da * c),
+  };
+}
+
+// Noll terms fitted to traced wavefronts: piston through the quadrafoils, so
+// primary spherical (Z11) and secondary astigmatism are included.
+export const WAVEFRONT_ZERNIKE_TERMS = 15;
+
+export const ZERNIKE_TILT_Y = 3;
+export const ZERNIKE_DEFOCUS = 4;
+export const ZERNIKE_ASTIG_OBLIQUE = 5;
+export const ZERNIKE_ASTIG_VERTICAL = 6;
+export const ZERNIKE_COMA_Y = 7;
+export const ZERNIKE_COMA_X = 8;
+export const ZERNIKE_SPHERICAL = 11;
+
+// Wavefront sample at normalized pupil coordinates (u, v), with the pupil
+// area it stands for (1 when omitted).
+export type PupilSample = { u: number; v: number; w: number; area?: number };
+
+function basisAt(s: PupilSample, terms: number): number[] {
+  const rho = Math.hypot(s.u, s.v);
+  const theta = Math.atan2(s.v, s.u);
+  const row: number[] = [];
+  for (let j = 1; j <= terms; j++) row.push(zernikeNoll(j, rho, theta));
+  return row;
+}
+
+// Least-squares fit; coefficients are indexed from 0 (Z1). On an obstructed
+// pupil the terms are no longer orthogonal, so residual RMS should come from
+// the samples rather than from the coefficients.
+export function fitZernikeNoll(
+  samples: PupilSample[],
+  terms: number = WAVEFRONT_ZERNIKE_TERMS,
+): number[] | null {
+  if (samples.length < 2 * terms) return null;
+
+  const AtA = Array.from({ length: terms }, () =>
+    new Array<number>(terms).fill(0),
+  );
+  const Atw = new Array<number>(terms).fill(0);
+
+  for (const s of samples) {
+    const row = basisAt(s, terms);
+    const a = s.area ?? 1;
+    for (let i = 0; i < terms; i++) {
+      Atw[i] += a * row[i] * s.w;
+      for (let j = 0; j < terms; j++) AtA[i][j] += a * row[i] * row[j];
+    }
+  }
+
+  return solveLinear(AtA, Atw);
+}
+
+// RMS and peak-to-valley of the samples once the first `through` fitted
+// terms are subtracted.
+export function residualWavefront(
+  samples: PupilSample[],
+  coefficients: number[],
+  through: number,
+): { rms: number; pv: number } {
+  if (samples.length === 0) return { rms: NaN, pv: NaN };
+
+  const residual = samples.map((s) => {
+    const row = basisAt(s, through);
+    let w = s.w;
+    for (let j = 0; j < through; j++) w -= coefficients[j] * row[j];
+    return w;
+  });
+
+  let total = 0;
+  let sum = 0;
+  samples.forEach((s, i) => {
+    total += s.area ?? 1;
+    sum += (s.area ?? 1) * residual[i];
+  });
+  if (!(total > 0)) return { rms: NaN, pv: NaN };
+
+  const mean = sum / total;
+  let sq = 0;
+  let lo = Infinity;
+  let hi = -Infinity;
+  samples.forEach((s, i) => {
+    const r = residual[i];
+    sq += (s.area ?? 1) * (r - mean) ** 2;
+    lo = Math.min(lo, r);
+    hi = Math.max(hi, r);
+  });
+
+  return { rms: Math.sqrt(sq / total), pv: hi - lo };
+}
@@ -2,6 +2,12 @@
 import type { Candidate, ScoreBreakdown, WeightSpec } from "./types";
 import { OBSTRUCTION_CONTRAST_COEFFICIENT } from "./constants";
 
+export type ScoreBounds = {
+  minWfeRms: number;
+  maxWfeRms: number;
+  wfeScale: number;
+};
+
 function clamp01(v: number): number {
   if (!Number.isFinite(v)) return 0;
   if (v <= 0) return 0;
@@ -15,11 +21,7 @@ function finiteOr(v: number, fallback: number): number {
 
 export function scoreCandidate(
   candidate: Candidate,
-  bounds: {
-    minWfeRms: number;
-    maxWfeRms: number;
-    wfeScale: number;
-  },
+  bounds: ScoreBounds,
   weights: WeightSpec,
 ): Candidate {
   const { geometry, throughput, aberrations } = candidate;
@@ -58,11 +60,7 @@ export function scoreCandidate(
   };
 }
 
-export function computeScoreBounds(candidates: Candidate[]): {
-  minWfeRms: number;
-  maxWfeRms: number;
-  wfeScale: number;
-} {
+export function computeScoreBounds(candidates: Candidate[]): ScoreBounds {
   let min = Infinity;
   let max = -Infinity;
 
@@ -15,6 +15,7 @@ import type { ConicSurface, PlaneSurface, Ray } from "../raytrace/types";
 import { add, mul, normalize, v3 } from "../raytrace/math";
 import { surfaceNormal } from "../raytrace/surface";
 import { intersectConic, intersectPlane, reflect } from "../raytrace/trace";
+import { gridSteps } from "../raytrace/pupil";
 
 function isConic(s: Surface): s is SurfaceConic {
   return s.kind === "conic";
@@ -314,9 +315,11 @@ export function createNewtonianSimulator(): OpticalSimulator {
 
       const zStart = plan.entrance.zStart_mm;
       const pupilRadius = plan.entrance.pupilRadius_mm;
-      const fieldAngles = plan.entrance.fieldAngles_rad;
+      // This tracer fans in the x–z plane only.
+      const fieldAngles = plan.entrance.fieldPoints.map((f) => f.x_rad);
 
-      const sampleSteps = Math.max(1, sampleSpec.pupil.steps | 0);
+      // Square grid only, whatever pattern the spec asks for.
+      const sampleSteps = gridSteps(sampleSpec);
       const maxBounces = Math.max(1, sampleSpec.maxBounces | 0);
 
       const traces: TraceRay[] = [];
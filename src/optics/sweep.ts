@@ -1,14 +1,46 @@
 // src/optics/sweep.ts
-import type { Candidate, InputSpec, OpticDesignKind, Units } from "./types";
+import type {
+  Candidate,
+  DesignParams,
+  InputSpec,
+  OpticDesignKind,
+  SweepPoint,
+  Units,
+} from "./types";
 import type { DesignContext } from "./designs/types";
+import type { CandidateCache } from "./candidateCache";
+import type { OptimizationResult } from "./optimize";
+import type { ParetoResult } from "./pareto";
+import type { RefinementLevel } from "./adaptive";
+import type { SweepEntry } from "./sweepProtocol";
 
 import { toMm } from "./units";
 import { computeScoreBounds, scoreCandidate } from "./score";
+import { candidateKey } from "./candidateCache";
+import {
+  activeSweepAxes,
+  applySweepPoint,
+  axisAppliesTo,
+  axisValues,
+  cartesianProduct,
+  enumerateRange,
+  hasFreeBackFocus,
+  latinHypercube,
+  sweepPointParams,
+  withSweepPoint,
+} from "./sweepAxes";
+import { seededRandom } from "./raytrace/pupil";
+import { PARETO_OBJECTIVES, rankPareto } from "./pareto";
 
 import { newtonian } from "./designs/newtonian";
 import { cassegrain } from "./designs/cassegrain";
 import { sct } from "./designs/sct";
 import { rc } from "./designs/rc";
+import { dallKirkham } from "./designs/dallKirkham";
+import { maksutov } from "./designs/maksutov";
+import { aplanaticGregorian, gregorian } from "./designs/gregorian";
+import { offAxisNewtonian } from "./designs/offAxisNewtonian";
+import { schiefspiegler } from "./designs/schiefspiegler";
 
 export type SweepResult = {
   candidates: Candidate[];
@@ -19,9 +51,17 @@ export type SweepResult = {
   derivedSpec?: InputSpec;
   warnings?: string[];
   appliedSpec?: InputSpec;
+  optimization?: OptimizationResult;
+  pareto?: ParetoResult;
+  refinement?: RefinementLevel[];
+  // Jobs that were evaluated but whose generator returned no design.
+  noDesign?: SweepJob[];
 };
 
-function checkConstraints(spec: InputSpec, c: Candidate): Candidate {
+// Checks against the spec as it stands at the candidate's sweep point, so
+// swept limits apply design by design.
+export function checkConstraints(spec: InputSpec, c: Candidate): Candidate {
+  spec = applySweepPoint(spec, c.sweepPoint);
   const reasons: string[] = [];
 
   const maxTube_mm = toMm(
@@ -53,6 +93,20 @@ function checkConstraints(spec: InputSpec, c: Candidate): Candidate {
     reasons.push("backfocus_below_min");
   }
 
+  // Prime-focus back focus follows from the f-ratio, so only two-mirror
+  // designs are held to the maximum.
+  const maxBackFocus_mm =
+    spec.constraints.maxBackFocus === undefined || !hasFreeBackFocus(c.kind)
+      ? Infinity
+      : toMm(spec.constraints.maxBackFocus, spec.constraints.backFocusUnits);
+
+  if (
+    Number.isFinite(maxBackFocus_mm) &&
+    c.geometry.backFocus_mm > maxBackFocus_mm + 1e-6
+  ) {
+    reasons.push("backfocus_above_max");
+  }
+
   return {
     ...c,
     constraints: {
@@ -62,28 +116,25 @@ function checkConstraints(spec: InputSpec, c: Candidate): Candidate {
   };
 }
 
-function enumerateRange(min: number, max: number, step: number): number[] {
-  if (!Number.isFinite(step) || step <= 0) return [];
-  if (!Number.isFinite(min) || !Number.isFinite(max)) return [];
-  if (max < min) return [];
-
-  const out: number[] = [];
-  let v = min;
-  while (v <= max + 1e-12) {
-    out.push(Number(v.toFixed(10)));
-    v += step;
-  }
-  return out;
-}
-
 function generatorFor(kind: OpticDesignKind) {
   if (kind === "newtonian") return newtonian;
   if (kind === "cassegrain") return cassegrain;
   if (kind === "sct") return sct;
   if (kind === "rc") return rc;
+  if (kind === "dallKirkham") return dallKirkham;
+  if (kind === "maksutov") return maksutov;
+  if (kind === "gregorian") return gregorian;
+  if (kind === "aplanaticGregorian") return aplanaticGregorian;
+  if (kind === "offAxisNewtonian") return offAxisNewtonian;
+  if (kind === "schiefspiegler") return schiefspiegler;
   return null;
 }
 
+// Single-focus designs have no separate system f-ratio to sweep.
+export function isPrimeFocusKind(kind: OpticDesignKind): boolean {
+  return kind === "newtonian" || kind === "offAxisNewtonian";
+}
+
 function relaxedSpecForInference(spec: InputSpec): InputSpec {
   return {
     ...spec,
@@ -100,11 +151,20 @@ function formatUnits(u: Units): string {
   return u === "mm" ? "mm" : "in";
 }
 
-function collectRawCandidates(
-  spec: InputSpec,
-  ctx: DesignContext,
-): Candidate[] {
-  const out: Candidate[] = [];
+// One generator call in a sweep: a design kind at a primary and system
+// f-ratio, and at a point on the extra axes if there are any. Prime-focus
+// kinds carry the primary f-ratio in both.
+export type SweepJob = {
+  kind: OpticDesignKind;
+  primaryFRatio: number;
+  systemFRatio: number;
+  point?: SweepPoint;
+};
+
+// Every combination of f-ratios and extra axis values, or a Latin-hypercube
+// sample of them, per design kind. An adaptive sweep starts from the grid.
+export function sweepJobs(spec: InputSpec): SweepJob[] {
+  const out: SweepJob[] = [];
 
   const fpValues = enumerateRange(
     spec.sweep.primaryFRatioMin,
@@ -125,34 +185,115 @@ function collectRawCandidates(
         ? [spec.targetSystemFRatio]
         : [];
 
-  for (const kind of spec.designKinds) {
-    const gen = generatorFor(kind);
-    if (!gen) continue;
-
-    for (const Fp of fpValues) {
-      if (kind === "newtonian") {
-        const c = gen(spec, { primaryFRatio: Fp, systemFRatio: Fp }, ctx);
-        if (c) out.push(c);
-        continue;
-      }
+  const axes = activeSweepAxes(spec);
+  const sampling = spec.sweep.sampling ?? { kind: "grid" };
+  const next = seededRandom(
+    sampling.kind === "latinHypercube" ? (sampling.seed ?? 1) : 1,
+  );
 
-      for (const Fs of fsValues) {
-        const c = gen(spec, { primaryFRatio: Fp, systemFRatio: Fs }, ctx);
-        if (c) out.push(c);
+  for (const kind of spec.designKinds) {
+    if (!generatorFor(kind)) continue;
+
+    const primeFocus = isPrimeFocusKind(kind);
+    const kindAxes = axes.filter((a) => axisAppliesTo(a, kind));
+    const columns = [
+      fpValues,
+      primeFocus ? [NaN] : fsValues,
+      ...kindAxes.map(axisValues),
+    ];
+    const sizes = columns.map((c) => c.length);
+    const tuples =
+      sampling.kind === "latinHypercube"
+        ? latinHypercube(sizes, sampling.samples, next)
+        : cartesianProduct(sizes);
+
+    for (const tuple of tuples) {
+      const Fp = columns[0][tuple[0]];
+      const Fs = primeFocus ? Fp : columns[1][tuple[1]];
+      const job: SweepJob = { kind, primaryFRatio: Fp, systemFRatio: Fs };
+      if (kindAxes.length > 0) {
+        job.point = Object.fromEntries(
+          kindAxes.map((a, i) => [a.path, columns[i + 2][tuple[i + 2]]]),
+        );
       }
+      out.push(job);
     }
   }
 
   return out;
 }
 
-export function inferDerivedLimits(
+function jobParams(job: SweepJob): DesignParams {
+  return {
+    primaryFRatio: job.primaryFRatio,
+    systemFRatio: job.systemFRatio,
+    ...sweepPointParams(job.point),
+  };
+}
+
+export function sweepJobKey(
   spec: InputSpec,
+  job: SweepJob,
   ctx: DesignContext,
-): InputSpec {
-  const relaxed = relaxedSpecForInference(spec);
-  const raw = collectRawCandidates(relaxed, ctx);
+): string {
+  return candidateKey(
+    applySweepPoint(spec, job.point),
+    job.kind,
+    jobParams(job),
+    ctx.scoringSampleSpec,
+  );
+}
 
+// Raw candidate for one job, built against the relaxed spec so it serves both
+// ranking and limit inference. Constraints are checked when ranking.
+export function evaluateSweepJob(
+  spec: InputSpec,
+  job: SweepJob,
+  ctx: DesignContext,
+  cache?: CandidateCache,
+): Candidate | null {
+  const gen = generatorFor(job.kind);
+  if (!gen) return null;
+
+  const key = cache ? sweepJobKey(spec, job, ctx) : "";
+  const cached = cache?.get(key);
+  if (cached !== undefined) return cached && withSweepPoint(cached, job.point);
+
+  const c = gen(
+    relaxedSpecForInference(applySweepPoint(spec, job.point)),
+    jobParams(job),
+    ctx,
+  );
+  cache?.set(key, c);
+  return c && withSweepPoint(c, job.point);
+}
+
+function collectEntries(
+  spec: InputSpec,
+  ctx: DesignContext,
+  cache?: CandidateCache,
+): SweepEntry[] {
+  return sweepJobs(spec).map((job) => ({
+    job,
+    candidate: evaluateSweepJob(spec, job, ctx, cache),
+  }));
+}
+
+// The designs among evaluated jobs, ready for rankSweep.
+export function rawCandidates(entries: SweepEntry[]): Candidate[] {
+  const out: Candidate[] = [];
+  for (const e of entries) if (e.candidate) out.push(e.candidate);
+  return out;
+}
+
+// The evaluated jobs whose generator found the geometry infeasible.
+export function noDesignJobs(entries: SweepEntry[]): SweepJob[] {
+  const out: SweepJob[] = [];
+  for (const e of entries) if (!e.candidate) out.push(e.job);
+  return out;
+}
+
+function deriveLimits(spec: InputSpec, raw: Candidate[]): InputSpec {
   let minFp = Infinity;
   let maxFp = -Infinity;
   let minFs = Infinity;
@@ -188,58 +329,23 @@ export function inferDerivedLimits(
   };
 }
 
-function computeSweep(
+export function inferDerivedLimits(
   spec: InputSpec,
-  topN: number,
   ctx: DesignContext,
-): {
-  candidates: Candidate[];
-  passing: Candidate[];
-  ranked: Candidate[];
-  bestByKind: Record<OpticDesignKind, Candidate | null>;
-  bestOverall: Candidate | null;
-  top: Candidate[];
-} {
-  const candidates: Candidate[] = [];
-  const relaxed = relaxedSpecForInference(spec);
-
-  const fpValues = enumerateRange(
-    spec.sweep.primaryFRatioMin,
-    spec.sweep.primaryFRatioMax,
-    spec.sweep.primaryFRatioStep,
-  );
-
-  const rawFsValues = enumerateRange(
-    spec.sweep.systemFRatioMin,
-    spec.sweep.systemFRatioMax,
-    spec.sweep.systemFRatioStep,
-  );
-
-  const fsValues =
-    rawFsValues.length > 0 && rawFsValues.some(Number.isFinite)
-      ? rawFsValues
-      : spec.targetSystemFRatio > 0
-        ? [spec.targetSystemFRatio]
-        : [];
-
-  for (const kind of spec.designKinds) {
-    const gen = generatorFor(kind);
-    if (!gen) continue;
-
-    for (const Fp of fpValues) {
-      if (kind === "newtonian") {
-        const raw = gen(relaxed, { primaryFRatio: Fp, systemFRatio: Fp }, ctx);
-        if (raw) candidates.push(checkConstraints(spec, raw));
-        continue;
-      }
-
-      for (const Fs of fsValues) {
-        const raw = gen(relaxed, { primaryFRatio: Fp, systemFRatio: Fs }, ctx);
-        if (raw) candidates.push(checkConstraints(spec, raw));
-      }
-    }
-  }
+  cache?: CandidateCache,
+): InputSpec {
+  return deriveLimits(spec, rawCandidates(collectEntries(spec, ctx, cache)));
+}
 
+// Ranks raw candidates from evaluateSweepJob against the spec's constraints
+// and weights, or front by front when spec.ranking is "pareto". Works on any
+// subset, so a sweep still running can show what it has so far.
+export function rankSweep(
+  spec: InputSpec,
+  raw: Candidate[],
+  topN: number = 25,
+): SweepResult {
+  const candidates = raw.map((c) => checkConstraints(spec, c));
   const passing = candidates.filter((c) => c.constraints.pass);
 
   const bestByKind: Record<OpticDesignKind, Candidate | null> = {
@@ -247,23 +353,36 @@ function computeSweep(
     cassegrain: null,
     sct: null,
     rc: null,
+    dallKirkham: null,
+    maksutov: null,
+    gregorian: null,
+    aplanaticGregorian: null,
+    offAxisNewtonian: null,
+    schiefspiegler: null,
   };
 
+  const derivedSpec = deriveLimits(spec, raw);
+
   if (passing.length === 0) {
     return {
       candidates,
-      passing,
       ranked: [],
-      bestByKind,
       bestOverall: null,
+      bestByKind,
       top: [],
+      derivedSpec,
+      warnings: [],
     };
   }
 
   const bounds = computeScoreBounds(passing);
-  const ranked = passing
-    .map((c) => scoreCandidate(c, bounds, spec.weights))
-    .sort((a, b) => b.score.total - a.score.total);
+  const scored = passing.map((c) => scoreCandidate(c, bounds, spec.weights));
+  const pareto = spec.ranking === "pareto";
+  const ranked = (pareto ? rankPareto(scored) : scored).sort(
+    (a, b) =>
+      (a.pareto?.rank ?? 0) - (b.pareto?.rank ?? 0) ||
+      b.score.total - a.score.total,
+  );
 
   for (const c of ranked) {
     if (!bestByKind[c.kind]) bestByKind[c.kind] = c;
@@ -271,41 +390,34 @@ function computeSweep(
 
   return {
     candidates,
-    passing,
     ranked,
-    bestByKind,
     bestOverall: ranked[0] ?? null,
+    bestByKind,
     top: ranked.slice(0, Math.max(0, topN)),
+    derivedSpec,
+    warnings: [],
+    ...(pareto
+      ? {
+          pareto: {
+            objectives: PARETO_OBJECTIVES.map((o) => o.key),
+            front: ranked.filter((c) => c.pareto?.rank === 1),
+          },
+        }
+      : {}),
   };
 }
 
+// Grid or sampled sweeps in one pass; adaptive ones go through
+// runAdaptiveSweep.
 export function runSweep(
   spec: InputSpec,
   ctx: DesignContext,
   topN: number = 25,
+  cache?: CandidateCache,
 ): SweepResult {
-  const first = computeSweep(spec, topN, ctx);
-  const derivedSpec = inferDerivedLimits(spec, ctx);
-
-  if (first.passing.length > 0) {
-    return {
-      candidates: first.candidates,
-      ranked: first.ranked,
-      bestOverall: first.bestOverall,
-      bestByKind: first.bestByKind,
-      top: first.top,
-      derivedSpec,
-      warnings: [],
-    };
-  }
-
+  const entries = collectEntries(spec, ctx, cache);
   return {
-    candidates: first.candidates,
-    ranked: [],
-    bestOverall: null,
-    bestByKind: first.bestByKind,
-    top: [],
-    derivedSpec,
-    warnings: [],
+    ...rankSweep(spec, rawCandidates(entries), topN),
+    noDesign: noDesignJobs(entries),
   };
 }
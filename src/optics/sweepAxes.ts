@@ -0,0 +1,266 @@
+// src/optics/sweepAxes.ts
+import type {
+  Candidate,
+  DesignParams,
+  InputSpec,
+  OpticDesignKind,
+  SweepAxis,
+  SweepPoint,
+} from "./types";
+
+import { toMm } from "./units";
+
+const PARAMS_PREFIX = "params.";
+
+export const BACK_FOCUS_PATH = "params.backFocus_mm";
+
+const TWO_MIRROR_KINDS: OpticDesignKind[] = [
+  "cassegrain",
+  "sct",
+  "rc",
+  "dallKirkham",
+  "maksutov",
+  "gregorian",
+  "aplanaticGregorian",
+];
+
+// Spec values with a units field beside them.
+const UNITS_FIELDS: Record<string, string> = {
+  aperture: "apertureUnits",
+  "constraints.maxTubeLength": "constraints.tubeLengthUnits",
+  "constraints.minBackFocus": "constraints.backFocusUnits",
+  "constraints.fullyIlluminatedFieldRadius": "constraints.fieldUnits",
+};
+
+// Design parameter overrides and the kinds that read them.
+const PARAM_KINDS: Record<string, OpticDesignKind[]> = {
+  interceptFraction: ["newtonian"],
+  secondaryConic: [
+    "cassegrain",
+    "rc",
+    "dallKirkham",
+    "gregorian",
+    "aplanaticGregorian",
+    "schiefspiegler",
+  ],
+  backFocus_mm: TWO_MIRROR_KINDS,
+};
+
+// Parts of the spec that describe the sweep itself rather than a design.
+const RESERVED_PREFIXES = ["sweep.", "weights.", "derivedLimits."];
+
+export function enumerateRange(
+  min: number,
+  max: number,
+  step: number,
+): number[] {
+  if (!Number.isFinite(step) || step <= 0) return [];
+  if (!Number.isFinite(min) || !Number.isFinite(max)) return [];
+  if (max < min) return [];
+
+  const out: number[] = [];
+  let v = min;
+  while (v <= max + 1e-12) {
+    out.push(Number(v.toFixed(10)));
+    v += step;
+  }
+  return out;
+}
+
+export function axisValues(axis: SweepAxis): number[] {
+  if (axis.values && axis.values.length > 0) {
+    return [...new Set(axis.values.filter(Number.isFinite))];
+  }
+  return enumerateRange(axis.min ?? NaN, axis.max ?? NaN, axis.step ?? NaN);
+}
+
+function getPath(obj: unknown, parts: string[]): unknown {
+  let cur = obj;
+  for (const p of parts) {
+    if (typeof cur !== "object" || cur === null) return undefined;
+    cur = (cur as Record<string, unknown>)[p];
+  }
+  return cur;
+}
+
+function setPath<T>(obj: T, parts: string[], value: unknown): T {
+  if (parts.length === 0) return value as T;
+  const [head, ...rest] = parts;
+  const cur = obj as Record<string, unknown>;
+  return { ...cur, [head]: setPath(cur[head], rest, value) } as T;
+}
+
+// A path is sweepable if it names a parameter override, or a number in the
+// spec (an optional one may be unset) outside the sweep's own settings.
+function isSweepablePath(spec: InputSpec, path: string): boolean {
+  if (path.startsWith(PARAMS_PREFIX)) {
+    return path.slice(PARAMS_PREFIX.length) in PARAM_KINDS;
+  }
+  if (RESERVED_PREFIXES.some((p) => path.startsWith(p))) return false;
+
+  const parts = path.split(".");
+  const value = getPath(spec, parts);
+  if (typeof value === "number") return true;
+  const parent = getPath(spec, parts.slice(0, -1));
+  return value === undefined && typeof parent === "object" && parent !== null;
+}
+
+// Kinds laid out by twoMirrorLayout, whose back focus is a design variable.
+// The Schiefspiegler's tilts move its focus off the layout's, so its back
+// focus is an outcome rather than a variable.
+export function hasFreeBackFocus(kind: OpticDesignKind): boolean {
+  return TWO_MIRROR_KINDS.includes(kind);
+}
+
+// The back focus range in mm when the spec sets a maximum above the minimum.
+export function backFocusRange(
+  spec: InputSpec,
+): { min_mm: number; max_mm: number } | null {
+  const c = spec.constraints;
+  if (c.maxBackFocus === undefined) return null;
+  const min_mm = Math.max(0, toMm(c.minBackFocus, c.backFocusUnits));
+  const max_mm = toMm(c.maxBackFocus, c.backFocusUnits);
+  if (!Number.isFinite(min_mm) || !Number.isFinite(max_mm)) return null;
+  return max_mm > min_mm ? { min_mm, max_mm } : null;
+}
+
+// The back focus axis implied by a range and sweep.backFocusStep.
+function backFocusAxis(spec: InputSpec): SweepAxis | null {
+  const range = backFocusRange(spec);
+  const step = spec.sweep.backFocusStep;
+  if (!range || step === undefined || !(step > 0)) return null;
+  return {
+    path: BACK_FOCUS_PATH,
+    min: range.min_mm,
+    max: range.max_mm,
+    step: toMm(step, spec.constraints.backFocusUnits),
+  };
+}
+
+// Axes that name a sweepable path and have at least one value, with the
+// implied back focus axis unless one is given explicitly.
+export function activeSweepAxes(spec: InputSpec): SweepAxis[] {
+  const axes = (spec.sweep.axes ?? []).filter(
+    (a) => isSweepablePath(spec, a.path) && axisValues(a).length > 0,
+  );
+  const backFocus = backFocusAxis(spec);
+  if (backFocus && !axes.some((a) => a.path === BACK_FOCUS_PATH)) {
+    axes.push(backFocus);
+  }
+  return axes;
+}
+
+// Parameter overrides only reach the kinds that read them; other axes reach
+// every kind.
+export function axisAppliesTo(axis: SweepAxis, kind: OpticDesignKind): boolean {
+  if (!axis.path.startsWith(PARAMS_PREFIX)) return true;
+  return (
+    PARAM_KINDS[axis.path.slice(PARAMS_PREFIX.length)]?.includes(kind) ?? false
+  );
+}
+
+// The spec with a point's values, and their units, written in. Parameter
+// overrides are left to sweepPointParams.
+export function applySweepPoint(
+  spec: InputSpec,
+  point?: SweepPoint,
+): InputSpec {
+  if (!point) return spec;
+  let out = spec;
+  for (const axis of spec.sweep.axes ?? []) {
+    const value = point[axis.path];
+    if (value === undefined || axis.path.startsWith(PARAMS_PREFIX)) continue;
+    out = setPath(out, axis.path.split("."), value);
+    const unitsPath = UNITS_FIELDS[axis.path];
+    if (axis.units && unitsPath) {
+      out = setPath(out, unitsPath.split("."), axis.units);
+    }
+  }
+  return out;
+}
+
+export function sweepPointParams(point?: SweepPoint): Partial<DesignParams> {
+  const out: Partial<DesignParams> = {};
+  for (const [path, value] of Object.entries(point ?? {})) {
+    if (!path.startsWith(PARAMS_PREFIX)) continue;
+    const key = path.slice(PARAMS_PREFIX.length);
+    if (
+      key === "interceptFraction" ||
+      key === "secondaryConic" ||
+      key === "backFocus_mm"
+    ) {
+      out[key] = value;
+    }
+  }
+  return out;
+}
+
+// Short form for ids and labels: the last part of each path with its value.
+export function sweepPointLabel(point: SweepPoint): string {
+  return Object.entries(point)
+    .map(
+      ([path, value]) =>
+        `${path.split(".").at(-1)}=${Number(value.toFixed(4))}`,
+    )
+    .join(" ");
+}
+
+// The candidate as it stands at `point`: its id gains the point's label.
+// Cached candidates are shared between points that build the same design,
+// so the id is rebuilt from the plan's rather than appended to.
+export function withSweepPoint(c: Candidate, point?: SweepPoint): Candidate {
+  const labelled = point !== undefined && Object.keys(point).length > 0;
+  if (!labelled && !c.sweepPoint) return c;
+  return {
+    ...c,
+    id: labelled
+      ? `${c.plan.id}-${sweepPointLabel(point).replaceAll(" ", "-")}`
+      : c.plan.id,
+    sweepPoint: labelled ? point : undefined,
+  };
+}
+
+export function cartesianProduct(sizes: number[]): number[][] {
+  let out: number[][] = [[]];
+  for (const size of sizes) {
+    const next: number[][] = [];
+    for (const prefix of out) {
+      for (let i = 0; i < size; i++) next.push([...prefix, i]);
+    }
+    out = next;
+  }
+  return out;
+}
+
+// `samples` index tuples into lists of the given sizes. Each axis is cut into
+// `samples` equal strata, each stratum used once, in an order shuffled per
+// axis. Tuples that land on the same grid point are kept once.
+export function latinHypercube(
+  sizes: number[],
+  samples: number,
+  next: () => number,
+): number[][] {
+  if (sizes.some((size) => size === 0)) return [];
+  const n = Math.max(0, Math.floor(samples));
+  const columns = sizes.map((size) => {
+    const order = Array.from({ length: n }, (_, i) => i);
+    for (let i = n - 1; i > 0; i--) {
+      const j = Math.floor(next() * (i + 1));
+      [order[i], order[j]] = [order[j], order[i]];
+    }
+    return order.map((stratum) =>
+      Math.min(size - 1, Math.floor(((stratum + next()) / n) * size)),
+    );
+  });
+
+  const seen = new Set<string>();
+  const out: number[][] = [];
+  for (let i = 0; i < n; i++) {
+    const tuple = columns.map((col) => col[i]);
+    const key = tuple.join(",");
+    if (seen.has(key)) continue;
+    seen.add(key);
+    out.push(tuple);
+  }
+  return out;
+}
@@ -0,0 +1,57 @@
+// src/optics/sweepProtocol.ts
+import type { Candidate, InputSpec } from "./types";
+import type { DesignContext } from "./designs/types";
+import type { SampleSpec } from "./plan/types";
+import type { ScoreBounds } from "./score";
+
+import { evaluateSweepJob, type SweepJob } from "./sweep";
+import {
+  optimizeSeed,
+  type OptimizerRun,
+  type OptimizerSeed,
+} from "./optimize";
+
+// A job with what its generator returned, which may be nothing.
+export type SweepEntry = { job: SweepJob; candidate: Candidate | null };
+
+// Messages between createSweepRunner and its workers: a chunk of grid jobs,
+// or one optimizer seed.
+export type SweepWorkerRequest =
+  | {
+      type: "jobs";
+      spec: InputSpec;
+      sampleSpec: SampleSpec;
+      jobs: SweepJob[];
+    }
+  | {
+      type: "optimize";
+      spec: InputSpec;
+      sampleSpec: SampleSpec;
+      seed: OptimizerSeed;
+      bounds: ScoreBounds;
+    };
+
+export type SweepWorkerReply =
+  | { type: "jobs"; entries: SweepEntry[] }
+  | { type: "optimize"; run: OptimizerRun };
+
+// Does the work for one request, in a worker or, as a fallback, on the
+// calling thread. `ctx` carries the request's sample spec.
+export function handleSweepRequest(
+  request: SweepWorkerRequest,
+  ctx: DesignContext,
+): SweepWorkerReply {
+  if (request.type === "jobs") {
+    return {
+      type: "jobs",
+      entries: request.jobs.map((job) => ({
+        job,
+        candidate: evaluateSweepJob(request.spec, job, ctx),
+      })),
+    };
+  }
+  return {
+    type: "optimize",
+    run: optimizeSeed(request.spec, request.seed, request.bounds, ctx),
+  };
+}
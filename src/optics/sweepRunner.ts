@@ -0,0 +1,375 @@
+// src/optics/sweepRunner.ts
+import type { InputSpec } from "./types";
+import type { DesignContext } from "./designs/types";
+
+import {
+  noDesignJobs,
+  rankSweep,
+  rawCandidates,
+  sweepJobKey,
+  sweepJobs,
+  type SweepJob,
+  type SweepResult,
+} from "./sweep";
+import {
+  mergeOptimization,
+  optimizerBounds,
+  optimizerSeeds,
+  type OptimizerRun,
+} from "./optimize";
+import { createCandidateCache, type CandidateCache } from "./candidateCache";
+import { createRefinement } from "./adaptive";
+import { withSweepPoint } from "./sweepAxes";
+import {
+  handleSweepRequest,
+  type SweepEntry,
+  type SweepWorkerReply,
+  type SweepWorkerRequest,
+} from "./sweepProtocol";
+import {
+  SWEEP_CHUNK_SIZE,
+  SWEEP_MAX_WORKERS,
+  SWEEP_PROGRESS_INTERVAL_MS,
+} from "./constants";
+
+// Grid runs count jobs, and an adaptive run's total grows level by level;
+// optimizer runs count seeds.
+export type SweepProgress = {
+  stage: "grid" | "optimizer";
+  done: number;
+  total: number;
+  result: SweepResult;
+};
+
+export type SweepRun = {
+  result: SweepResult;
+  done: number;
+  total: number;
+  cancelled: boolean;
+};
+
+export type SweepRunOptions = {
+  topN?: number;
+  signal?: AbortSignal;
+  onProgress?: (progress: SweepProgress) => void;
+};
+
+export type SweepRunner = {
+  run(spec: InputSpec, options?: SweepRunOptions): Promise<SweepRun>;
+  // Refines a finished grid result with the continuous optimizer, one seed
+  // per worker.
+  optimize(
+    spec: InputSpec,
+    grid: SweepResult,
+    options?: SweepRunOptions,
+  ): Promise<SweepRun>;
+  dispose(): void;
+};
+
+type WorkerSlot = { worker: Worker; task: SweepWorkerRequest | null };
+
+function poolSize(): number {
+  const cores =
+    typeof navigator !== "undefined" ? navigator.hardwareConcurrency || 2 : 2;
+  return Math.max(1, Math.min(SWEEP_MAX_WORKERS, cores - 1));
+}
+
+function startWorker(): Worker | null {
+  if (typeof Worker === "undefined") return null;
+  try {
+    return new Worker(new URL("./sweepWorker.ts", import.meta.url));
+  } catch {
+    return null;
+  }
+}
+
+function chunked(jobs: SweepJob[], size: number): SweepJob[][] {
+  const out: SweepJob[][] = [];
+  for (let i = 0; i < jobs.length; i += size) {
+    out.push(jobs.slice(i, i + size));
+  }
+  return out;
+}
+
+// Runs sweeps on a pool of Web Workers, handing out jobs in chunks. Ranking
+// grows with every candidate in, so progress re-ranks what has come back at
+// most every SWEEP_PROGRESS_INTERVAL_MS, and the run's result is ranked once
+// at the end. Without workers (server render, tests, or a worker that failed
+// to load) the chunks run on the calling thread, yielding between them so
+// progress and cancel still work.
+// Jobs found in the cache are not sent out, and what comes back is stored
+// there, so a run differing only in weights or limits re-ranks at once.
+// Adaptive sweeps queue each refinement level once the one before is in.
+// One run at a time: starting a run cancels the one before.
+export function createSweepRunner(
+  ctx: DesignContext,
+  cache: CandidateCache = createCandidateCache(),
+): SweepRunner {
+  let slots: WorkerSlot[] = [];
+  let workersFailed = false;
+  let cancelActive: (() => void) | null = null;
+
+  function terminateWorkers() {
+    for (const slot of slots) slot.worker.terminate();
+    slots = [];
+  }
+
+  function ensureWorkers(): WorkerSlot[] {
+    if (workersFailed || slots.length > 0) return slots;
+    for (let i = 0; i < poolSize(); i++) {
+      const worker = startWorker();
+      if (!worker) break;
+      slots.push({ worker, task: null });
+    }
+    if (slots.length === 0) workersFailed = true;
+    return slots;
+  }
+
+  // Works through the requests on the pool, passing each reply to `accept`,
+  // and resolves with `finish` once all are answered or the run is cancelled.
+  // When the queue runs dry, `refill` may hand over more requests.
+  function execute(
+    queue: SweepWorkerRequest[],
+    signal: AbortSignal | undefined,
+    accept: (reply: SweepWorkerReply) => void,
+    finish: (cancelled: boolean) => SweepRun,
+    refill?: () => SweepWorkerRequest[],
+  ): Promise<SweepRun> {
+    cancelActive?.();
+
+    return new Promise<SweepRun>((resolve) => {
+      let settled = false;
+
+      const settle = (cancelled: boolean) => {
+        if (settled) return;
+        settled = true;
+        signal?.removeEventListener("abort", cancel);
+        if (cancelActive === cancel) cancelActive = null;
+        resolve(finish(cancelled));
+      };
+
+      // Workers busy with a cancelled run are stopped rather than waited on;
+      // the next run starts fresh ones.
+      function cancel() {
+        if (settled) return;
+        if (slots.some((s) => s.task)) terminateWorkers();
+        settle(true);
+      }
+
+      const runInline = () => {
+        setTimeout(() => {
+          if (settled) return;
+          const task = queue.shift();
+          if (task) accept(handleSweepRequest(task, ctx));
+          pump();
+        }, 0);
+      };
+
+      // A worker that errors takes the pool down with it; its request and any
+      // others in flight go back on the queue for the calling thread.
+      const failWorkers = () => {
+        for (const slot of slots) if (slot.task) queue.unshift(slot.task);
+        terminateWorkers();
+        workersFailed = true;
+        pump();
+      };
+
+      const dispatch = (slot: WorkerSlot, task: SweepWorkerRequest) => {
+        slot.task = task;
+        slot.worker.onmessage = (e: MessageEvent<SweepWorkerReply>) => {
+          if (settled) return;
+          slot.task = null;
+          accept(e.data);
+          pump();
+        };
+        slot.worker.onerror = (e: ErrorEvent) => {
+          e.preventDefault();
+          if (!settled) failWorkers();
+        };
+        slot.worker.postMessage(task);
+      };
+
+      function pump() {
+        if (settled) return;
+        if (queue.length === 0 && !slots.some((s) => s.task) && refill) {
+          queue.push(...refill());
+        }
+        const pool = queue.length > 0 ? ensureWorkers() : slots;
+        const busy = pool.some((s) => s.task);
+        if (queue.length === 0 && !busy) {
+          settle(false);
+          return;
+        }
+        if (pool.length === 0) {
+          runInline();
+          return;
+        }
+        for (const slot of pool) {
+          if (slot.task) continue;
+          const task = queue.shift();
+          if (!task) break;
+          dispatch(slot, task);
+        }
+      }
+
+      if (signal?.aborted) {
+        settle(true);
+        return;
+      }
+      signal?.addEventListener("abort", cancel);
+      cancelActive = cancel;
+      pump();
+    });
+  }
+
+  function run(
+    spec: InputSpec,
+    options: SweepRunOptions = {},
+  ): Promise<SweepRun> {
+    const topN = options.topN ?? 25;
+    const jobs = sweepJobs(spec);
+    const entries: SweepEntry[] = [];
+    const refinement =
+      spec.sweep.sampling?.kind === "adaptive"
+        ? createRefinement(spec, jobs)
+        : null;
+
+    // Cached jobs go straight into the entries; the rest become requests.
+    const requests = (batch: SweepJob[]): SweepWorkerRequest[] => {
+      const pending: SweepJob[] = [];
+      for (const job of batch) {
+        const cached = cache.get(sweepJobKey(spec, job, ctx));
+        if (cached !== undefined) {
+          entries.push({
+            job,
+            candidate: cached && withSweepPoint(cached, job.point),
+          });
+        } else {
+          pending.push(job);
+        }
+      }
+      return chunked(pending, SWEEP_CHUNK_SIZE).map((chunk) => ({
+        type: "jobs",
+        spec,
+        sampleSpec: ctx.scoringSampleSpec,
+        jobs: chunk,
+      }));
+    };
+
+    let total = jobs.length;
+
+    // Levels served wholly from the cache are passed straight through.
+    const nextLevel = (): SweepWorkerRequest[] => {
+      if (!refinement) return [];
+      for (;;) {
+        const batch = refinement.next(entries);
+        if (batch.length === 0) return [];
+        total += batch.length;
+        const queued = requests(batch);
+        if (queued.length > 0) return queued;
+      }
+    };
+
+    const ranking = (): SweepResult => {
+      const result = {
+        ...rankSweep(spec, rawCandidates(entries), topN),
+        noDesign: noDesignJobs(entries),
+      };
+      return refinement
+        ? { ...result, refinement: refinement.levels() }
+        : result;
+    };
+
+    let lastProgress = -Infinity;
+
+    return execute(
+      requests(jobs),
+      options.signal,
+      (reply) => {
+        if (reply.type !== "jobs") return;
+        for (const entry of reply.entries) {
+          cache.set(sweepJobKey(spec, entry.job, ctx), entry.candidate);
+        }
+        entries.push(...reply.entries);
+        if (!options.onProgress) return;
+        const now = performance.now();
+        if (now - lastProgress < SWEEP_PROGRESS_INTERVAL_MS) return;
+        lastProgress = now;
+        options.onProgress({
+          stage: "grid",
+          done: entries.length,
+          total,
+          result: ranking(),
+        });
+      },
+      (cancelled) => ({
+        result: ranking(),
+        done: entries.length,
+        total,
+        cancelled,
+      }),
+      nextLevel,
+    );
+  }
+
+  function optimize(
+    spec: InputSpec,
+    grid: SweepResult,
+    options: SweepRunOptions = {},
+  ): Promise<SweepRun> {
+    const topN = options.topN ?? 25;
+    const bounds = optimizerBounds(grid);
+    const seeds = optimizerSeeds(grid);
+    const runs: OptimizerRun[] = [];
+
+    // Runs in seed order whatever order the workers finish in.
+    const merged = () =>
+      mergeOptimization(
+        spec,
+        grid,
+        {
+          bounds,
+          runs: seeds.flatMap((seed) =>
+            runs.filter((r) => r.kind === seed.kind),
+          ),
+        },
+        topN,
+      );
+
+    return execute(
+      seeds.map((seed) => ({
+        type: "optimize",
+        spec,
+        sampleSpec: ctx.scoringSampleSpec,
+        seed,
+        bounds,
+      })),
+      options.signal,
+      (reply) => {
+        if (reply.type !== "optimize") return;
+        runs.push(reply.run);
+        options.onProgress?.({
+          stage: "optimizer",
+          done: runs.length,
+          total: seeds.length,
+          result: merged(),
+        });
+      },
+      (cancelled) => ({
+        result: merged(),
+        done: runs.length,
+        total: seeds.length,
+        cancelled,
+      }),
+    );
+  }
+
+  return {
+    run,
+    optimize,
+    dispose() {
+      cancelActive?.();
+      terminateWorkers();
+    },
+  };
+}
@@ -0,0 +1,18 @@
+// src/optics/sweepWorker.ts
+import type { SweepWorkerRequest } from "./sweepProtocol";
+
+import { handleSweepRequest } from "./sweepProtocol";
+import { createRaytraceSimulator } from "./raytrace/simulator";
+
+// Worker entry for createSweepRunner: answers each request it is sent with
+// one reply.
+const simulator = createRaytraceSimulator();
+
+self.onmessage = (e: MessageEvent<SweepWorkerRequest>) => {
+  self.postMessage(
+    handleSweepRequest(e.data, {
+      simulator,
+      scoringSampleSpec: e.data.sampleSpec,
+    }),
+  );
+};
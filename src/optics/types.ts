@@ -2,17 +2,48 @@
 //
 import type { OpticalPlan } from "./plan/types";
 import type { SimulationAudit } from "./audit/types";
-export type OpticDesignKind = "newtonian" | "cassegrain" | "sct" | "rc";
+export type OpticDesignKind =
+  | "newtonian"
+  | "cassegrain"
+  | "sct"
+  | "rc"
+  | "dallKirkham"
+  | "maksutov"
+  | "gregorian"
+  | "aplanaticGregorian"
+  | "offAxisNewtonian"
+  | "schiefspiegler";
+
+// "spot" aluminizes the centre of the meniscus; "separate" mounts its own mirror.
+export type MaksutovSecondary = "spot" | "separate";
 
 export type Units = "mm" | "inch";
 
-export type ControlMode = "design" | "sweep";
+// Field points traced for image quality: the axis, the 0.7 zone and the full
+// fully illuminated radius (both toward +x), and the four sensor corners.
+export type FieldGridKind = "onAxis" | "zone" | "full" | "sensorCorners";
+
+export type SensorFormat = {
+  width: number;
+  height: number;
+  units: Units;
+};
+
+// "optimize" refines the best grid designs with a continuous optimizer.
+export type ControlMode = "design" | "sweep" | "optimize";
+
+// "pareto" orders a sweep by dominance over the raw metrics, with the
+// weighted score only breaking ties within a front.
+export type RankingMode = "weighted" | "pareto";
 
 export type ConstraintSpec = {
   maxTubeLength: number;
   tubeLengthUnits: Units;
   maxObstructionRatio: number;
   minBackFocus: number;
+  // Unset leaves two-mirror back focus at the minimum. Set, back focus is a
+  // design variable between the two, in the same units.
+  maxBackFocus?: number;
   backFocusUnits: Units;
   fullyIlluminatedFieldRadius: number;
   fieldUnits: Units;
@@ -23,6 +54,34 @@ export type CoatingSpec = {
   correctorTransmission?: number;
 };
 
+// Values for the extra sweep axes of one design, keyed by axis path.
+export type SweepPoint = Record<string, number>;
+
+// A parameter swept on top of the f-ratio grid. `path` is a dotted path to a
+// number in InputSpec ("aperture", "constraints.minBackFocus") or, under
+// "params.", to a DesignParams override ("params.secondaryConic"). Values are
+// either `values` or min to max in `step`s. `units` sets the units field
+// beside the value where there is one (aperture, tube length, back focus,
+// field radius).
+export type SweepAxis = {
+  path: string;
+  min?: number;
+  max?: number;
+  step?: number;
+  values?: number[];
+  units?: Units;
+};
+
+// "grid" takes every combination of f-ratios and axis values. A Latin
+// hypercube takes `samples` of them per design kind, spread evenly along
+// every axis; the same seed gives the same sample. "adaptive" starts from the
+// grid and halves the f-ratio steps, up to `levels` times, in the cells whose
+// corners differ in feasibility or in score by more than `tolerance`.
+export type SweepSampling =
+  | { kind: "grid" }
+  | { kind: "latinHypercube"; samples: number; seed?: number }
+  | { kind: "adaptive"; levels?: number; tolerance?: number };
+
 export type SweepSpec = {
   primaryFRatioMin: number;
   primaryFRatioMax: number;
@@ -30,6 +89,12 @@ export type SweepSpec = {
   systemFRatioMin: number;
   systemFRatioMax: number;
   systemFRatioStep: number;
+  axes?: SweepAxis[];
+  // Steps two-mirror back focus from the minimum to the maximum, in
+  // backFocusUnits; without it only the optimizer moves back focus.
+  backFocusStep?: number;
+  // Defaults to "grid".
+  sampling?: SweepSampling;
 };
 
 export type WeightSpec = {
@@ -54,7 +119,16 @@ export type InputSpec = {
   apertureUnits: Units;
   targetSystemFRatio: number;
   designKinds: OpticDesignKind[];
+  maksutovSecondary?: MaksutovSecondary;
+  // Off-axis Newtonian: fold to the side with a diagonal (default) or image
+  // directly at the prime focus beside the beam.
+  offAxisDiagonal?: boolean;
+  // Defaults to on-axis plus full field; sensor corners need sensorFormat.
+  fieldGrid?: FieldGridKind[];
+  sensorFormat?: SensorFormat;
   controlMode: ControlMode;
+  // Defaults to "weighted".
+  ranking?: RankingMode;
   constraints: ConstraintSpec;
   coatings: CoatingSpec;
   sweep: SweepSpec;
@@ -69,6 +143,26 @@ export type GeometryMetrics = {
   obstructionRatio: number;
 };
 
+export type CorrectorMetrics = {
+  glass: string;
+  thickness_mm: number;
+  weight_kg: number;
+  thermalTimeConstant_min: number;
+};
+
+export type OffAxisMetrics = {
+  parentFocalLength_mm: number;
+  parentDiameter_mm: number;
+  offAxisDistance_mm: number;
+  subApertureSag_mm: number;
+};
+
+export type TiltMetrics = {
+  primaryTilt_rad: number;
+  secondaryTilt_rad: number;
+  secondaryDecenter_mm: number;
+};
+
 export type ThroughputMetrics = {
   primaryArea_mm2: number;
   effectiveArea_mm2: number;
@@ -85,6 +179,14 @@ export type ImageQualityMetrics = {
   spherical_wfeRms_waves_edge: number;
   wfeRms_waves_edge: number;
   strehl: number;
+  lateralColor_mm_edge?: number;
+  longitudinalColor_mm?: number;
+  // Over every traced field point: the worst value and the mean weighted by
+  // the sensor area each point stands for, with RMS at each point's focus.
+  wfeRms_waves_worst?: number;
+  wfeRms_waves_mean?: number;
+  strehl_worst?: number;
+  strehl_mean?: number;
 };
 
 export type ScoreBreakdown = {
@@ -98,6 +200,13 @@ export type ScoreResult = {
   terms: ScoreBreakdown;
 };
 
+// Rank 1 is the non-dominated set. Crowding distance is Infinity at the ends
+// of the front and larger where the front is sparse.
+export type ParetoRank = {
+  rank: number;
+  crowding: number;
+};
+
 export type ConstraintResult = {
   pass: boolean;
   reasons: string[];
@@ -122,12 +231,27 @@ export type Candidate = {
   geometry: GeometryMetrics;
   throughput: ThroughputMetrics;
   aberrations: ImageQualityMetrics;
+  corrector?: CorrectorMetrics;
+  offAxis?: OffAxisMetrics;
+  tilts?: TiltMetrics;
+  erectImage?: boolean;
   constraints: ConstraintResult;
   score: ScoreResult;
+  pareto?: ParetoRank;
+  // Set when the sweep had extra axes.
+  sweepPoint?: SweepPoint;
   audit?: SimulationAudit;
 };
 
 export type DesignParams = {
   primaryFRatio: number;
   systemFRatio: number;
+  // Newtonian diagonal distance inside focus, as a fraction of the primary
+  // focal length; defaults to NEWTONIAN_INTERCEPT_FRACTION.
+  interceptFraction?: number;
+  // Two-mirror secondary conic in place of the one solved for the form.
+  secondaryConic?: number;
+  // Two-mirror back focus behind the primary vertex, in place of the
+  // spec's minimum.
+  backFocus_mm?: number;
 };
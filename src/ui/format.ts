@@ -1,5 +1,6 @@
 import type { Candidate, Units } from "../optics/types";
 import { fromMm } from "../optics/units";
+import { sweepPointLabel } from "../optics/sweepAxes";
 
 export function fmtNumber(value: number, digits: number = 2): string {
   if (!Number.isFinite(value)) return "-";
@@ -20,13 +21,34 @@ export function fmtLength(
   return fmtNumber(v, digits) + " " + units;
 }
 
-export function candidateLabel(c: Candidate): string {
+function designLabel(c: Candidate): string {
   if (c.kind === "newtonian") {
     return `Newtonian F${fmtNumber(c.inputs.primaryFRatio, 2)}`;
   }
+  if (c.kind === "offAxisNewtonian") {
+    return `Off-axis Newtonian F${fmtNumber(c.inputs.primaryFRatio, 2)}`;
+  }
+  if (c.kind === "dallKirkham") {
+    return `DK Fp${fmtNumber(c.inputs.primaryFRatio, 2)} Fs${fmtNumber(c.inputs.systemFRatio, 2)}`;
+  }
+  if (c.kind === "gregorian" || c.kind === "aplanaticGregorian") {
+    const prefix = c.kind === "gregorian" ? "Greg" : "AGreg";
+    return `${prefix} Fp${fmtNumber(c.inputs.primaryFRatio, 2)} Fs${fmtNumber(c.inputs.systemFRatio, 2)}`;
+  }
+  if (c.kind === "schiefspiegler") {
+    return `Schief Fp${fmtNumber(c.inputs.primaryFRatio, 2)} Fs${fmtNumber(c.inputs.systemFRatio, 2)}`;
+  }
+  if (c.kind === "maksutov") {
+    return `Mak Fp${fmtNumber(c.inputs.primaryFRatio, 2)} Fs${fmtNumber(c.inputs.systemFRatio, 2)}`;
+  }
   return `${c.kind.toUpperCase()} Fp${fmtNumber(c.inputs.primaryFRatio, 2)} Fs${fmtNumber(c.inputs.systemFRatio, 2)}`;
 }
 
+export function candidateLabel(c: Candidate): string {
+  const label = designLabel(c);
+  return c.sweepPoint ? `${label} ${sweepPointLabel(c.sweepPoint)}` : label;
+}
+
 export function candidateSummary(c: Candidate, tubeUnits: Units): string {
   const tube = fmtLength(c.geometry.tubeLength_mm, tubeUnits, 1);
   const obs = fmtPercent(c.geometry.obstructionRatio, 1);
@@ -89,7 +89,14 @@ export function defaultLabState(): LabState {
     aperture: 12,
     apertureUnits: "inch",
     targetSystemFRatio: 6,
-    designKinds: ["newtonian", "cassegrain", "sct", "rc"],
+    designKinds: [
+      "newtonian",
+      "cassegrain",
+      "sct",
+      "rc",
+      "dallKirkham",
+      "maksutov",
+    ],
     controlMode: "design",
     constraints: {
       maxTubeLength: 60,
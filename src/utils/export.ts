@@ -1,5 +1,6 @@
 // src/utils/export.ts
 import type { SweepResult } from "../optics/sweep";
+import type { OpticalPlan, Surface } from "../optics/plan/types";
 import type { OpticDesignKind, Units, Candidate } from "../optics/types";
 import { candidateLabel, fmtLength, fmtNumber, fmtPercent } from "../ui/format";
 
@@ -39,6 +40,86 @@ function codeBlockJson(label: string, value: unknown): string[] {
   return out;
 }
 
+function fmtExp(v: number): string {
+  return Number.isFinite(v) ? v.toExponential(6) : "-";
+}
+
+function frameTerms(s: Surface): string[] {
+  if (s.kind === "plane") return [];
+
+  const parts: string[] = [];
+  const o = s.aperture.offset_mm;
+  if (o) {
+    parts.push(`apertureOffset=(${fmtNumber(o.x, 3)}, ${fmtNumber(o.y, 3)})mm`);
+  }
+  if (!s.frame) return parts;
+
+  const d = s.frame.decenter_mm;
+  if (d && (d.x !== 0 || d.y !== 0 || d.z !== 0)) {
+    parts.push(
+      `decenter=(${fmtNumber(d.x, 3)}, ${fmtNumber(d.y, 3)}, ${fmtNumber(d.z, 3)})mm`,
+    );
+  }
+  if (s.frame.tiltX_rad) parts.push(`tiltX=${fmtExp(s.frame.tiltX_rad)}rad`);
+  if (s.frame.tiltY_rad) parts.push(`tiltY=${fmtExp(s.frame.tiltY_rad)}rad`);
+  return parts;
+}
+
+function surfaceTerms(s: Surface): string {
+  if (s.kind !== "asphere") {
+    const parts = frameTerms(s);
+    return parts.length > 0 ? parts.join(", ") : "-";
+  }
+
+  const parts = s.coefficients.map((c, i) => `A${2 * i + 4}=${fmtExp(c)}`);
+  const f = s.freeform;
+  if (f?.kind === "zernike") {
+    f.coefficients_mm.forEach((c, i) => {
+      if (c !== 0) parts.push(`Z${i + 1}=${fmtExp(c)}`);
+    });
+  } else if (f?.kind === "xyPolynomial") {
+    for (const t of f.terms) {
+      parts.push(`x${t.xPower}y${t.yPower}=${fmtExp(t.coefficient_mm)}`);
+    }
+  }
+  if (f) parts.push(`norm=${fmtNumber(f.normRadius_mm, 3)}mm`);
+  parts.push(...frameTerms(s));
+
+  return parts.length > 0 ? parts.join(", ") : "-";
+}
+
+function prescriptionTable(plan: OpticalPlan): string[] {
+  const out: string[] = [];
+  out.push("### prescription");
+  out.push("");
+  out.push("| surface | kind | material | z (mm) | R (mm) | K | terms |");
+  out.push("|---|---|---|---:|---:|---:|---|");
+
+  for (const s of plan.surfaces) {
+    const material = s.material.glass
+      ? `${s.material.kind} (${s.material.glass})`
+      : s.material.kind;
+
+    if (s.kind === "plane") {
+      out.push(
+        `| ${s.id} | plane | ${material} | ${fmtNumber(s.p0_mm.z, 3)} | flat | - | - |`,
+      );
+      continue;
+    }
+
+    const R =
+      s.R_mm === 0 || !Number.isFinite(s.R_mm)
+        ? "flat"
+        : fmtNumber(s.R_mm, 3);
+    out.push(
+      `| ${s.id} | ${s.kind} | ${material} | ${fmtNumber(s.z0_mm, 3)} | ${R} | ${fmtNumber(s.K, 6)} | ${surfaceTerms(s)} |`,
+    );
+  }
+
+  out.push("");
+  return out;
+}
+
 export function exportSweepResultsMarkdown(
   result: SweepResult,
   tubeUnits: Units,
@@ -77,26 +158,36 @@ export function exportSweepResultsMarkdown(
 
   lines.push("## Best by kind");
   lines.push("");
-  (["newtonian", "cassegrain", "sct", "rc"] as OpticDesignKind[]).forEach(
-    (kind) => {
-      const c = result.bestByKind[kind];
-      if (!c) {
-        lines.push(`- **${kind}**: none`);
-        return;
-      }
+  const kinds: OpticDesignKind[] = [
+    "newtonian",
+    "offAxisNewtonian",
+    "cassegrain",
+    "sct",
+    "rc",
+    "dallKirkham",
+    "maksutov",
+    "gregorian",
+    "aplanaticGregorian",
+    "schiefspiegler",
+  ];
+  kinds.forEach((kind) => {
+    const c = result.bestByKind[kind];
+    if (!c) {
+      lines.push(`- **${kind}**: none`);
+      return;
+    }
 
-      lines.push(
-        `- **${kind}**: ${candidateLabel(c)} | score ${fmtNumber(c.score.total, 3)} | tube ${fmtLength(
-          c.geometry.tubeLength_mm,
-          tubeUnits,
-          1,
-        )} | obs ${fmtPercent(c.geometry.obstructionRatio, 1)} | eff ${fmtPercent(
-          c.throughput.usableLightEfficiency,
-          1,
-        )}`,
-      );
-    },
-  );
+    lines.push(
+      `- **${kind}**: ${candidateLabel(c)} | score ${fmtNumber(c.score.total, 3)} | tube ${fmtLength(
+        c.geometry.tubeLength_mm,
+        tubeUnits,
+        1,
+      )} | obs ${fmtPercent(c.geometry.obstructionRatio, 1)} | eff ${fmtPercent(
+        c.throughput.usableLightEfficiency,
+        1,
+      )}`,
+    );
+  });
 
   lines.push("");
   lines.push(`## Top ${result.top.length}`);
@@ -128,6 +219,81 @@ export function exportSweepResultsMarkdown(
     `_Candidates generated: ${result.candidates.length}, passing: ${result.ranked.length}_`,
   );
 
+  if (result.optimization) {
+    lines.push("");
+    lines.push("## Optimizer");
+    lines.push("");
+    lines.push(
+      "| kind | seed Fp | seed Fs | Fp | Fs | seed score | score | iterations | designs | converged |",
+    );
+    lines.push("|---|---:|---:|---:|---:|---:|---:|---:|---:|---|");
+    for (const run of result.optimization.runs) {
+      lines.push(
+        `| ${run.kind} | ${fmtNumber(run.seed.params.primaryFRatio, 3)} | ${fmtNumber(
+          run.seed.params.systemFRatio,
+          3,
+        )} | ${fmtNumber(run.params.primaryFRatio, 3)} | ${fmtNumber(
+          run.params.systemFRatio,
+          3,
+        )} | ${fmtNumber(run.seed.score, 4)} | ${fmtNumber(run.score, 4)} | ${
+          run.iterations
+        } | ${run.evaluations} | ${run.converged ? "yes" : "no"} |`,
+      );
+    }
+    lines.push("");
+    lines.push(
+      ...codeBlockJson(
+        "trajectories",
+        result.optimization.runs.map((run) => ({
+          kind: run.kind,
+          trajectory: run.trajectory,
+        })),
+      ),
+    );
+  }
+
+  if (result.refinement) {
+    lines.push("");
+    lines.push("## Adaptive refinement");
+    lines.push("");
+    lines.push("| level | Fp step | Fs step | cells | split | designs |");
+    lines.push("|---:|---:|---:|---:|---:|---:|");
+    for (const l of result.refinement) {
+      lines.push(
+        `| ${l.level} | ${fmtNumber(l.primaryFRatioStep, 4)} | ${fmtNumber(
+          l.systemFRatioStep,
+          4,
+        )} | ${l.cells} | ${l.split} | ${l.jobs} |`,
+      );
+    }
+  }
+
+  if (result.pareto) {
+    lines.push("");
+    lines.push(`## Pareto front (${result.pareto.front.length})`);
+    lines.push("");
+    lines.push(
+      "| candidate | score | crowding | eff | wfe edge | obs | tube | back focus |",
+    );
+    lines.push("|---|---:|---:|---:|---:|---:|---:|---:|");
+    for (const c of result.pareto.front) {
+      lines.push(
+        `| ${candidateLabel(c)} | ${fmtNumber(c.score.total, 3)} | ${
+          c.pareto?.crowding === Infinity
+            ? "∞"
+            : fmtNumber(c.pareto?.crowding ?? NaN, 3)
+        } | ${fmtPercent(c.throughput.usableLightEfficiency, 1)} | ${fmtNumber(
+          c.aberrations.wfeRms_waves_edge,
+          4,
+        )} | ${fmtPercent(c.geometry.obstructionRatio, 1)} | ${fmtLength(
+          c.geometry.tubeLength_mm,
+          tubeUnits,
+          1,
+        )} | ${fmtNumber(c.geometry.backFocus_mm, 1)} mm |`,
+      );
+    }
+  }
+
   if (!options.includeCandidateData) {
     return lines.join("\n");
   }
@@ -161,6 +327,7 @@ export function exportSweepResultsMarkdown(
     }
 
     if (options.includePlan) {
+      lines.push(...prescriptionTable(c.plan));
       lines.push(...codeBlockJson("plan", c.plan));
     }
 